@@ -1,94 +1,129 @@
-import { useState, useEffect } from "react";
-import type { UnifiedRecord } from "./types";
+import { useState, useEffect, useCallback, useRef } from "react";
+import type { AddressBookEntry, ImportSource, ProcessedData } from "./types";
 import MessagingApp from "./components/MessagingApp";
+import ImportProgressBar from "./components/ImportProgressBar";
 import ThemeToggle from "./components/ThemeToggle";
+import TimeZoneSelect from "./components/TimeZoneSelect";
+import PhoneRegionSelect from "./components/PhoneRegionSelect";
+import { MediaProvider } from "./contexts/MediaContext";
+import { ACCEPTED_FILE_TYPES } from "./importers";
+import { useImportWorker } from "./hooks/useImportWorker";
+import { DEFAULT_PHONE_REGION, isPhoneRegionCode } from "./utils/phoneUtils";
+import { ADDRESS_BOOK_FILE_TYPES, parseAddressBook } from "./utils/addressBook";
+
+// ?region= wins over the saved choice
+const getInitialPhoneRegion = (): string => {
+  const fromUrl = new URLSearchParams(window.location.search).get("region");
+  if (fromUrl && isPhoneRegionCode(fromUrl)) return fromUrl.toUpperCase();
+  const saved = localStorage.getItem("phoneRegion");
+  return saved && isPhoneRegionCode(saved) ? saved : DEFAULT_PHONE_REGION;
+};
 
 function App() {
-  const [jsonData, setJsonData] = useState<unknown>(null);
+  const [dataset, setDataset] = useState<ProcessedData | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [jsonUrl, setJsonUrl] = useState<string>("");
+  const [dataUrl, setDataUrl] = useState<string>("");
   const [mobileChatActive, setMobileChatActive] = useState(false);
+  const [mediaFiles, setMediaFiles] = useState<File[]>([]);
+  const [phoneRegion, setPhoneRegion] = useState(getInitialPhoneRegion);
+  const [addressBook, setAddressBook] = useState<AddressBookEntry[]>([]);
+  const [addressBookFiles, setAddressBookFiles] = useState<string[]>([]);
+  const { importData, progress } = useImportWorker();
+  // Read by the import callbacks, so they stay stable across region changes
+  const phoneRegionRef = useRef(phoneRegion);
+  // Re-imported when the phone region changes, as contact keys depend on it
+  const lastSourcesRef = useRef<ImportSource[] | null>(null);
 
-  useEffect(() => {
-    const params = new URLSearchParams(window.location.search);
-    const urlParam = params.get("url") || params.get("json");
-
-    if (urlParam) {
-      setJsonUrl(urlParam);
-      loadJsonFromUrl(urlParam);
-    }
-  }, []);
-
-  const loadJsonFromUrl = async (url: string) => {
+  const runImport = useCallback(async (sources: ImportSource[], fallbackError: string) => {
     try {
       setLoading(true);
       setError(null);
+      lastSourcesRef.current = sources;
 
-      const response = await fetch(url);
-      if (!response.ok) {
-        throw new Error(
-          `Failed to fetch: ${response.status} ${response.statusText}`
-        );
-      }
-
-      const data = await response.json();
-      setJsonData(data);
+      // Fetching, parsing, merging and processing all happen in the import worker
+      setDataset(await importData(sources, phoneRegionRef.current));
     } catch (err) {
       const message =
-        err instanceof Error ? err.message : "Failed to load JSON";
+        err instanceof Error ? err.message : fallbackError;
       setError(message);
     } finally {
       setLoading(false);
     }
-  };
+  }, [importData]);
+
+  const loadFromUrls = useCallback((urls: string[]) => {
+    return runImport(urls.map((url) => ({ kind: "url", url })), "Failed to load data");
+  }, [runImport]);
+
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    // Every ?url= (or legacy ?json=) param is loaded and merged
+    const urlParams = [...params.getAll("url"), ...params.getAll("json")].filter(Boolean);
+
+    if (urlParams.length > 0) {
+      setDataUrl(urlParams.join(" "));
+      loadFromUrls(urlParams);
+    }
+  }, [loadFromUrls]);
 
   const handleUrlSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (jsonUrl.trim()) {
-      loadJsonFromUrl(jsonUrl.trim());
+    // Several URLs can be entered separated by spaces
+    const urls = dataUrl.trim().split(/\s+/).filter(Boolean);
+    if (urls.length > 0) {
+      loadFromUrls(urls);
       // Update URL without page reload
       const newUrl = new URL(window.location.href);
-      newUrl.searchParams.set("url", jsonUrl.trim());
+      newUrl.searchParams.delete("url");
+      newUrl.searchParams.delete("json");
+      urls.forEach((url) => newUrl.searchParams.append("url", url));
       window.history.replaceState({}, "", newUrl.toString());
     }
   };
 
-  const handleFileChange = async (file: File | null) => {
-    if (!file) return;
-    try {
-      setLoading(true);
-      setError(null);
-      const text = await file.text();
-      const parsed = JSON.parse(text);
-      setJsonData(parsed);
-      const newUrl = new URL(window.location.href);
-      newUrl.searchParams.delete("url");
-      newUrl.searchParams.delete("json");
-      window.history.replaceState({}, "", newUrl.toString());
-    } catch (err) {
-      const message =
-        err instanceof Error ? err.message : "Failed to parse JSON file";
-      setError(message);
-    } finally {
-      setLoading(false);
+  const handleFilesChange = async (files: File[]) => {
+    if (files.length === 0) return;
+    await runImport(files.map((file) => ({ kind: "file", file })), "Failed to parse file");
+    const newUrl = new URL(window.location.href);
+    newUrl.searchParams.delete("url");
+    newUrl.searchParams.delete("json");
+    window.history.replaceState({}, "", newUrl.toString());
+  };
+
+  // Earlier files win when they name the same number differently, so the
+  // order picked is kept
+  const handleAddressBookChange = async (files: File[]) => {
+    if (files.length === 0) return;
+    const entries: AddressBookEntry[] = [];
+    const loaded: string[] = [];
+    const failures: string[] = [];
+    for (const file of files) {
+      try {
+        entries.push(...parseAddressBook(await file.text(), file.name));
+        loaded.push(file.name);
+      } catch (err) {
+        failures.push(`${file.name}: ${err instanceof Error ? err.message : "Failed to read address book"}`);
+      }
+    }
+    setError(failures.length > 0 ? failures.join("; ") : null);
+    if (loaded.length > 0) {
+      setAddressBook(entries);
+      setAddressBookFiles(loaded);
     }
   };
 
-  // Check if we have data that can be displayed as messages (both old and new formats)
-  const hasValidData =
-    jsonData &&
-    Array.isArray(jsonData) &&
-    jsonData.length > 0 &&
-    jsonData[0] &&
-    typeof jsonData[0] === "object" &&
-    // New format check
-    (("ID" in (jsonData[0] as Record<string, unknown>) &&
-      "Type" in (jsonData[0] as Record<string, unknown>) &&
-      "Description" in (jsonData[0] as Record<string, unknown>)) ||
-      // Legacy format check
-      ("party" in (jsonData[0] as Record<string, unknown>) &&
-        "message" in (jsonData[0] as Record<string, unknown>)));
+  const handlePhoneRegionChange = (region: string) => {
+    phoneRegionRef.current = region;
+    setPhoneRegion(region);
+    localStorage.setItem("phoneRegion", region);
+    const newUrl = new URL(window.location.href);
+    newUrl.searchParams.delete("region");
+    window.history.replaceState({}, "", newUrl.toString());
+    if (lastSourcesRef.current) runImport(lastSourcesRef.current, "Failed to load data");
+  };
+
+  const hasValidData = dataset !== null && dataset.qualityReport.totalRecords > 0;
 
   return (
     <div className="min-h-[100dvh] bg-gray-50 dark:bg-gray-900 overflow-x-hidden">
@@ -106,20 +141,23 @@ function App() {
               SMS Visualizer
             </h1>
             <div className="flex items-center gap-2">
+              <PhoneRegionSelect value={phoneRegion} onChange={handlePhoneRegionChange} />
+              <TimeZoneSelect />
               <ThemeToggle />
             </div>
           </div>
           <form onSubmit={handleUrlSubmit} className="flex-1 flex gap-2">
             <input
-              type="url"
-              value={jsonUrl}
-              onChange={(e) => setJsonUrl(e.target.value)}
-              placeholder="Enter JSON URL (e.g., https://archive.org/download/bro-sms/bro-sms.json)"
+              type="text"
+              inputMode="url"
+              value={dataUrl}
+              onChange={(e) => setDataUrl(e.target.value)}
+              placeholder="Enter export URLs, separated by spaces (e.g., https://archive.org/download/bro-sms/bro-sms.json)"
               className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 placeholder-gray-500 dark:placeholder-gray-400"
             />
             <button
               type="submit"
-              disabled={loading || !jsonUrl.trim()}
+              disabled={loading || !dataUrl.trim()}
               className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-xs text-center"
             >
               Load URL
@@ -127,11 +165,41 @@ function App() {
             <label className="px-4 py-2 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-lg border border-gray-300 dark:border-gray-600 hover:bg-gray-200 dark:hover:bg-gray-600 cursor-pointer text-xs text-center">
               <input
                 type="file"
-                accept="application/json,.json"
+                accept={ACCEPTED_FILE_TYPES}
+                multiple
+                className="hidden"
+                onChange={(e) => handleFilesChange(Array.from(e.target.files || []))}
+              />
+              Upload files
+            </label>
+            <label
+              className="px-4 py-2 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-lg border border-gray-300 dark:border-gray-600 hover:bg-gray-200 dark:hover:bg-gray-600 cursor-pointer text-xs text-center"
+              title="Pick the folder of extracted media so image attachments can be previewed"
+            >
+              <input
+                type="file"
+                multiple
+                className="hidden"
+                // webkitdirectory is not part of React's input attributes
+                ref={(el) => el?.setAttribute("webkitdirectory", "")}
+                onChange={(e) => setMediaFiles(Array.from(e.target.files || []))}
+              />
+              {mediaFiles.length > 0 ? `Media (${mediaFiles.length})` : "Media folder"}
+            </label>
+            <label
+              className="px-4 py-2 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-lg border border-gray-300 dark:border-gray-600 hover:bg-gray-200 dark:hover:bg-gray-600 cursor-pointer text-xs text-center"
+              title={addressBookFiles.length > 0
+                ? `Names from ${addressBookFiles.join(", ")}`
+                : "Pick vCard or CSV contacts to name numbers the export has no name for"}
+            >
+              <input
+                type="file"
+                accept={ADDRESS_BOOK_FILE_TYPES}
+                multiple
                 className="hidden"
-                onChange={(e) => handleFileChange(e.target.files?.[0] || null)}
+                onChange={(e) => handleAddressBookChange(Array.from(e.target.files || []))}
               />
-              Upload JSON
+              {addressBook.length > 0 ? `Address book (${addressBook.length})` : "Address book"}
             </label>
           </form>
         </div>
@@ -152,31 +220,35 @@ function App() {
         )}
 
         {loading && (
-          <div className="h-full flex items-center justify-center text-gray-500 dark:text-gray-400">
-            Loading…
+          <div className="h-full flex items-center justify-center">
+            <ImportProgressBar progress={progress} />
           </div>
         )}
 
         {!loading && hasValidData && (
           <div className="h-full">
-            <MessagingApp
-              smsData={jsonData as UnifiedRecord[]}
-              onMobileChatActiveChange={setMobileChatActive}
-            />
+            <MediaProvider files={mediaFiles}>
+              <MessagingApp
+                data={dataset!}
+                addressBook={addressBook}
+                phoneRegion={phoneRegion}
+                onMobileChatActiveChange={setMobileChatActive}
+              />
+            </MediaProvider>
           </div>
         )}
 
         {!loading && !hasValidData && (
           <div className="max-w-3xl mx-auto px-4 py-12 text-center text-gray-600 dark:text-gray-400">
             <p className="mb-2">
-              Load an SMS JSON via URL or upload a file to begin.
+              Load one or more SMS exports (JSON, CSV or SMS Backup &amp; Restore XML) via URL or upload files to begin. Several exports are merged into one view.
             </p>
             <p className="text-sm">
               Tip: Append{" "}
               <code className="bg-gray-100 dark:bg-gray-800 text-gray-800 dark:text-gray-200 px-1 rounded">
                 ?url=…
               </code>{" "}
-              to auto-load.
+              to auto-load; repeat it to merge several exports.
             </p>
           </div>
         )}
@@ -0,0 +1,306 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { List, CellMeasurer, CellMeasurerCache, AutoSizer } from "react-virtualized";
+import type { MeasuredCellParent } from "react-virtualized/dist/es/CellMeasurer";
+import type { CalendarEvent, Contact, Message } from "../types";
+import { getContactDisplayName, getDayKey } from "../utils/messageUtils";
+import { buildMessageDayIndex, type DayActivity } from "../utils/calendarUtils";
+import { getContactColor } from "../utils/contactColors";
+import MonthGrid from "./MonthGrid";
+import { useDisplayTimeZone } from "../hooks/useDisplayTimeZone";
+import {
+  formatDateInZone,
+  formatTimeInZone,
+  getZonedParts,
+  type ZoneSpec,
+} from "../utils/timeZoneUtils";
+
+interface CalendarViewProps {
+  events: CalendarEvent[];
+  contacts: Contact[];
+  messagesByContact: Map<string, Message[]>;
+  onContactSelect: (contactId: string, targetMessageId?: number) => void;
+}
+
+type AgendaItem =
+  | { type: "month"; year: number; month: number }
+  | { type: "event"; event: CalendarEvent; dayKey: string; zone: ZoneSpec; showDay: boolean };
+
+// Number of related conversations listed before collapsing into "+N more"
+const MAX_LINKED_CONTACTS = 4;
+
+export default function CalendarView({
+  events,
+  contacts,
+  messagesByContact,
+  onContactSelect,
+}: CalendarViewProps) {
+  const listRef = useRef<List>(null);
+  const cacheRef = useRef<CellMeasurerCache | null>(null);
+  const { zoneFor } = useDisplayTimeZone();
+  const [visibleMonth, setVisibleMonth] = useState(() => {
+    const first = events[0];
+    const parts = first
+      ? getZonedParts(first.timestamp, zoneFor(first.utcOffset))
+      : getZonedParts(new Date());
+    return { year: parts.year, month: parts.month };
+  });
+  const [selectedDayKey, setSelectedDayKey] = useState<string | null>(null);
+
+  if (!cacheRef.current) {
+    cacheRef.current = new CellMeasurerCache({
+      fixedWidth: true,
+      defaultHeight: 72,
+      minHeight: 32,
+    });
+  }
+
+  const contactsById = useMemo(() => {
+    const map = new Map<string, Contact>();
+    contacts.forEach((contact) => {
+      map.set(contact.normalizedPhone || contact.phone, contact);
+    });
+    return map;
+  }, [contacts]);
+
+  const messageDayIndex = useMemo(
+    () => buildMessageDayIndex(messagesByContact, zoneFor),
+    [messagesByContact, zoneFor]
+  );
+
+  // Agenda rows with a divider whenever the month changes
+  const agendaItems = useMemo(() => {
+    const items: AgendaItem[] = [];
+    let previousMonth = "";
+    let previousDayKey = "";
+
+    events.forEach((event) => {
+      const zone = zoneFor(event.utcOffset);
+      const { year, month } = getZonedParts(event.timestamp, zone);
+      const dayKey = getDayKey(event.timestamp, zone);
+      if (`${year}-${month}` !== previousMonth) {
+        items.push({ type: "month", year, month });
+        previousMonth = `${year}-${month}`;
+      }
+      items.push({ type: "event", event, dayKey, zone, showDay: dayKey !== previousDayKey });
+      previousDayKey = dayKey;
+    });
+
+    return items;
+  }, [events, zoneFor]);
+
+  const eventCountByDay = useMemo(() => {
+    const counts = new Map<string, number>();
+    agendaItems.forEach((item) => {
+      if (item.type !== "event") return;
+      counts.set(item.dayKey, (counts.get(item.dayKey) || 0) + 1);
+    });
+    return counts;
+  }, [agendaItems]);
+
+  useEffect(() => {
+    cacheRef.current?.clearAll();
+    listRef.current?.forceUpdateGrid();
+  }, [agendaItems]);
+
+  const scrollToDay = (dayKey: string) => {
+    const targetIndex = agendaItems.findIndex(
+      (item) => item.type === "event" && item.dayKey >= dayKey
+    );
+    setSelectedDayKey(dayKey);
+    if (targetIndex === -1 || !listRef.current) return;
+
+    listRef.current.scrollToRow(targetIndex);
+    requestAnimationFrame(() => {
+      if (!listRef.current) return;
+      listRef.current.recomputeRowHeights(targetIndex);
+      listRef.current.scrollToRow(targetIndex);
+    });
+  };
+
+  const handleRowsRendered = ({ startIndex }: { startIndex: number }) => {
+    const item = agendaItems[startIndex];
+    if (!item) return;
+    const { year, month } =
+      item.type === "month" ? item : getZonedParts(item.event.timestamp, item.zone);
+    if (year !== visibleMonth.year || month !== visibleMonth.month) {
+      setVisibleMonth({ year, month });
+    }
+  };
+
+  if (events.length === 0) {
+    return (
+      <div className="flex-1 flex items-center justify-center bg-gray-50 dark:bg-gray-900">
+        <div className="text-center">
+          <svg className="mx-auto h-12 w-12 text-gray-300 dark:text-gray-600 mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+          </svg>
+          <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100 mb-2">No calendar events</h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400">This dataset has no Calendar records</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex-1 flex flex-col md:flex-row min-h-0 bg-white dark:bg-gray-900">
+      <div className="md:w-80 lg:w-96 flex-shrink-0 p-4 border-b md:border-b-0 md:border-r border-gray-100 dark:border-gray-700">
+        <MonthGrid
+          year={visibleMonth.year}
+          month={visibleMonth.month}
+          activity={eventCountByDay}
+          selectedDayKey={selectedDayKey}
+          onDaySelect={scrollToDay}
+          onMonthChange={(year, month) => {
+            setVisibleMonth({ year, month });
+            const monthIndex = agendaItems.findIndex(
+              (item) => item.type === "month" && item.year === year && item.month === month
+            );
+            if (monthIndex !== -1) listRef.current?.scrollToRow(monthIndex);
+          }}
+        />
+        <p className="mt-3 text-xs text-gray-500 dark:text-gray-400">
+          {events.length.toLocaleString()} event{events.length === 1 ? "" : "s"}
+        </p>
+      </div>
+
+      <div className="flex-1 min-h-0 bg-gray-50 dark:bg-gray-800" style={{ position: "relative" }}>
+        <div style={{ position: "absolute", top: 0, left: 0, right: 0, bottom: 0 }}>
+          <AutoSizer>
+            {({ height, width }) =>
+              cacheRef.current && (
+                <List
+                  ref={listRef}
+                  height={height}
+                  width={width}
+                  rowCount={agendaItems.length}
+                  scrollToAlignment="start"
+                  deferredMeasurementCache={cacheRef.current}
+                  rowHeight={cacheRef.current.rowHeight}
+                  onRowsRendered={handleRowsRendered}
+                  rowRenderer={({ index, key, parent, style }) => (
+                    <AgendaRow
+                      key={key}
+                      index={index}
+                      items={agendaItems}
+                      style={style}
+                      cache={cacheRef.current!}
+                      parent={parent}
+                      messageDayIndex={messageDayIndex}
+                      contactsById={contactsById}
+                      onContactSelect={onContactSelect}
+                    />
+                  )}
+                  overscanRowCount={10}
+                />
+              )
+            }
+          </AutoSizer>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+const AgendaRow = ({
+  index,
+  items,
+  style,
+  cache,
+  parent,
+  messageDayIndex,
+  contactsById,
+  onContactSelect,
+}: {
+  index: number;
+  items: AgendaItem[];
+  style: React.CSSProperties;
+  cache: CellMeasurerCache;
+  parent: MeasuredCellParent;
+  messageDayIndex: Map<string, DayActivity[]>;
+  contactsById: Map<string, Contact>;
+  onContactSelect: (contactId: string, targetMessageId?: number) => void;
+}) => {
+  const item = items[index];
+
+  if (item.type === "month") {
+    return (
+      <CellMeasurer cache={cache} columnIndex={0} parent={parent} rowIndex={index}>
+        <div style={style} className="px-4 pt-5 pb-2">
+          <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-200">
+            {new Date(item.year, item.month, 1).toLocaleDateString([], { month: "long", year: "numeric" })}
+          </h3>
+        </div>
+      </CellMeasurer>
+    );
+  }
+
+  const { event, dayKey, zone, showDay } = item;
+  const sameDayContacts = messageDayIndex.get(dayKey) || [];
+
+  return (
+    <CellMeasurer cache={cache} columnIndex={0} parent={parent} rowIndex={index}>
+      <div style={style} className="px-4 py-1">
+        <div className="flex gap-3">
+          <div className="w-12 flex-shrink-0 text-center pt-2">
+            {showDay && (
+              <>
+                <p className="text-[11px] uppercase text-gray-500 dark:text-gray-400">
+                  {formatDateInZone(event.timestamp, zone, { weekday: "short" })}
+                </p>
+                <p className="text-lg font-semibold text-gray-900 dark:text-gray-100 leading-tight">
+                  {getZonedParts(event.timestamp, zone).day}
+                </p>
+              </>
+            )}
+          </div>
+
+          <div className="flex-1 min-w-0 bg-white dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded-xl px-4 py-2 shadow-sm">
+            <div className="flex items-baseline justify-between gap-2">
+              <p className="text-sm font-medium text-gray-900 dark:text-gray-100 break-words">
+                {event.title}
+              </p>
+              <span className="text-xs text-gray-500 dark:text-gray-400 flex-shrink-0">
+                {formatTimeInZone(event.timestamp, zone, { hour: "2-digit", minute: "2-digit" })}
+              </span>
+            </div>
+            {event.details && (
+              <p className="mt-1 text-xs text-gray-600 dark:text-gray-300 whitespace-pre-wrap">
+                {event.details}
+              </p>
+            )}
+            {event.location && (
+              <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">{event.location}</p>
+            )}
+
+            {sameDayContacts.length > 0 && (
+              <div className="mt-2 flex flex-wrap items-center gap-1.5">
+                <span className="text-[11px] text-gray-400 dark:text-gray-500">Messages that day:</span>
+                {sameDayContacts.slice(0, MAX_LINKED_CONTACTS).map((activity) => {
+                  const contact = contactsById.get(activity.contactId);
+                  if (!contact) return null;
+                  return (
+                    <button
+                      key={activity.contactId}
+                      onClick={() => onContactSelect(activity.contactId, activity.firstMessageId)}
+                      className="inline-flex items-center gap-1 pl-0.5 pr-2 py-0.5 rounded-full bg-gray-100 dark:bg-gray-800 text-xs text-gray-700 dark:text-gray-200 hover:bg-blue-50 dark:hover:bg-blue-900/30"
+                      title={`${activity.messageCount} message${activity.messageCount === 1 ? "" : "s"} – open conversation`}
+                    >
+                      <span className={`w-4 h-4 rounded-full bg-gradient-to-br ${getContactColor(activity.contactId)}`} />
+                      <span className="max-w-[8rem] truncate">{getContactDisplayName(contact)}</span>
+                      <span className="text-gray-400 dark:text-gray-500">{activity.messageCount}</span>
+                    </button>
+                  );
+                })}
+                {sameDayContacts.length > MAX_LINKED_CONTACTS && (
+                  <span className="text-[11px] text-gray-400 dark:text-gray-500">
+                    +{sameDayContacts.length - MAX_LINKED_CONTACTS} more
+                  </span>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </CellMeasurer>
+  );
+};
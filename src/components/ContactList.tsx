@@ -1,147 +1,188 @@
 import { useState, useMemo, useEffect } from 'react';
-import type { Contact, Message } from '../types';
+import type { Contact, Message, MessageChannel, SearchIndexContact, SearchOptions, SearchResults } from '../types';
 import { formatMessageTime, getContactDisplayName } from '../utils/messageUtils';
+import { describeNameSource } from '../utils/addressBook';
+import { CHANNEL_LABELS, getMessageChannels } from '../utils/channelUtils';
+import { UNATTRIBUTED_CONTACT_ID, UNATTRIBUTED_DESCRIPTION } from '../utils/orphanAttribution';
 import { getContactColor, getContactTextColor } from '../utils/contactColors';
 import { useSearchWorker } from '../hooks/useSearchWorker';
+import { buildHighlightPattern, createSnippet, DEFAULT_SEARCH_OPTIONS } from '../utils/searchQuery';
+import { getTextDirection } from '../utils/thaanaUtils';
+import HighlightedText from './HighlightedText';
+import SearchResultsList from './SearchResultsList';
+import { useDisplayTimeZone } from '../hooks/useDisplayTimeZone';
+
+interface MatchMeta {
+  snippet: string;
+  // Offsets into snippet
+  highlights: [number, number][];
+  messageId: number;
+  matchCount: number;
+}
+
+// Toggles shown inside the search box, in order
+const SEARCH_OPTION_TOGGLES: { key: keyof SearchOptions; label: string; title: string }[] = [
+  { key: 'fuzzy', label: '~', title: 'Fuzzy: tolerate typos' },
+  { key: 'foldDiacritics', label: 'á', title: 'Ignore accents: cafe finds café' },
+  { key: 'phoneDigits', label: '#', title: 'Phone digits: 0778 1405 finds +960 778-1405' },
+  { key: 'transliterate', label: 'ތ', title: 'Latin to Thaana: dhivehi also finds ދިވެހި' },
+];
+
+const CHANNEL_FILTER_TITLES: Record<MessageChannel | 'all', string> = {
+  all: 'Every conversation',
+  sms: 'Conversations with SMS',
+  im: 'Conversations with instant messages',
+  call: 'Conversations with calls',
+};
 
 interface ContactListProps {
   contacts: Contact[];
   selectedContactId: string | null;
   onContactSelect: (contactId: string, targetMessageId?: number) => void;
-  searchIndex?: Map<string, string>;
+  searchIndex?: SearchIndexContact[];
   messagesByContact?: Map<string, Message[]>;
+  // Country used for searched numbers written without a country code
+  phoneRegion: string;
 }
 
-export default function ContactList({ contacts, selectedContactId, onContactSelect, searchIndex, messagesByContact }: ContactListProps) {
+export default function ContactList({ contacts, selectedContactId, onContactSelect, searchIndex, messagesByContact, phoneRegion }: ContactListProps) {
   const [searchQuery, setSearchQuery] = useState('');
-  const [filteredContactIds, setFilteredContactIds] = useState<string[] | null>(null);
-  const [matchMetaByContact, setMatchMetaByContact] = useState<Map<string, { snippet: string; messageId: number }>>(new Map());
-  const { initIndex, search, isSearching } = useSearchWorker();
-
-  const workerSearchIndex = useMemo(() => {
-    if (!searchIndex) return [];
-    return Array.from(searchIndex.entries()).map(([contactId, text]) => ({
-      contactId,
-      text
-    }));
-  }, [searchIndex]);
+  const [searchResults, setSearchResults] = useState<SearchResults | null>(null);
+  const [searchOptions, setSearchOptions] = useState<SearchOptions>(DEFAULT_SEARCH_OPTIONS);
+  const [showDeletedOnly, setShowDeletedOnly] = useState(false);
+  const [channelFilter, setChannelFilter] = useState<MessageChannel | 'all'>('all');
+  // While searching: matching conversations, or every matching message
+  const [resultsMode, setResultsMode] = useState<'conversations' | 'messages'>('conversations');
+  const { initIndex, search, isSearching, isIndexing } = useSearchWorker();
+  const { displayTimeZone, zoneFor } = useDisplayTimeZone();
 
   // Initialize/update worker index when it changes
   useEffect(() => {
-    if (workerSearchIndex.length > 0) {
-      initIndex(workerSearchIndex);
+    if (searchIndex && searchIndex.length > 0) {
+      initIndex(searchIndex, phoneRegion);
     }
-  }, [workerSearchIndex, initIndex]);
+  }, [searchIndex, phoneRegion, initIndex]);
 
   useEffect(() => {
     if (!searchQuery.trim()) {
-      setFilteredContactIds(null);
-      setMatchMetaByContact(new Map());
+      setSearchResults(null);
       return;
     }
 
     const performSearch = async () => {
-      const results = await search(searchQuery);
-      setFilteredContactIds(results);
+      const results = await search(searchQuery, searchOptions, displayTimeZone);
+      setSearchResults(results);
     };
 
     const timeoutId = setTimeout(performSearch, 150);
     return () => clearTimeout(timeoutId);
-  }, [searchQuery, search]);
-
-  useEffect(() => {
-    const query = searchQuery.trim().toLowerCase();
-    if (!query || !messagesByContact || !filteredContactIds || filteredContactIds.length === 0) {
-      setMatchMetaByContact(new Map());
-      return;
-    }
+  }, [searchQuery, searchOptions, displayTimeZone, search]);
+
+  const highlightPattern = useMemo(() => buildHighlightPattern(searchQuery), [searchQuery]);
+
+  // Snippet around the best-ranked hit per conversation, or of the most
+  // recent message when only the contact's name or number matched
+  const matchMetaByContact = useMemo(() => {
+    const result = new Map<string, MatchMeta>();
+    if (!searchResults || !messagesByContact) return result;
+
+    const hitCounts = new Map<string, number>();
+    searchResults.hits.forEach(hit => {
+      const count = hitCounts.get(hit.contactId) || 0;
+      hitCounts.set(hit.contactId, count + 1);
+      // Hits are ranked, so the first one per contact is the best
+      if (count > 0) return;
+      const message = messagesByContact.get(hit.contactId)?.find(m => m.id === hit.messageId);
+      if (!message) return;
+      result.set(hit.contactId, {
+        ...createSnippet(String(message.text || ''), hit.highlights),
+        messageId: message.id,
+        matchCount: 0,
+      });
+    });
+    hitCounts.forEach((count, contactId) => {
+      const meta = result.get(contactId);
+      if (meta) meta.matchCount = count;
+    });
 
-    let cancelled = false;
-    const result = new Map<string, { snippet: string; messageId: number }>();
-
-    const processChunk = async (startIdx: number) => {
-      if (cancelled) return;
-
-      const endIdx = Math.min(startIdx + 20, filteredContactIds.length);
-
-      for (let i = startIdx; i < endIdx; i++) {
-        const contactId = filteredContactIds[i];
-        const messages = messagesByContact.get(contactId);
-        if (!messages || messages.length === 0) continue;
-
-        let found = false;
-        for (const m of messages) {
-          if (!m || !m.text) continue;
-          const text = String(m.text);
-          const lowerText = text.toLowerCase();
-          const idx = lowerText.indexOf(query);
-
-          if (idx >= 0) {
-            const start = Math.max(0, idx - 20);
-            const end = Math.min(text.length, idx + query.length + 20);
-            const prefix = start > 0 ? '…' : '';
-            const suffix = end < text.length ? '…' : '';
-            const snippet = prefix + text.slice(start, end) + suffix;
-            result.set(contactId, { snippet, messageId: m.id });
-            found = true;
-            break;
-          }
-        }
-
-        if (!found && messages.length > 0) {
-          const firstMsg = messages[messages.length - 1]; // Most recent message
-          if (firstMsg && firstMsg.text) {
-            const text = String(firstMsg.text);
-            const snippet = text.length > 60 ? text.slice(0, 60) + '…' : text;
-            result.set(contactId, { snippet, messageId: firstMsg.id });
-          }
-        }
+    searchResults.contactIds.forEach(contactId => {
+      if (result.has(contactId)) return;
+      const messages = messagesByContact.get(contactId);
+      const lastMsg = messages?.[messages.length - 1]; // Most recent message
+      if (lastMsg && lastMsg.text) {
+        const text = String(lastMsg.text);
+        const snippet = text.length > 60 ? text.slice(0, 60) + '…' : text;
+        result.set(contactId, { snippet, highlights: [], messageId: lastMsg.id, matchCount: 0 });
       }
+    });
 
-      setMatchMetaByContact(new Map(result));
+    return result;
+  }, [searchResults, messagesByContact]);
 
-      if (endIdx < filteredContactIds.length) {
-        setTimeout(() => processChunk(endIdx), 0);
-      }
-    };
+  const totalDeleted = useMemo(
+    () => contacts.reduce((sum, contact) => sum + contact.deletedCount, 0),
+    [contacts]
+  );
 
-    processChunk(0);
+  // Which of SMS, instant messages and calls each conversation has
+  const channelsByContact = useMemo(() => {
+    const result = new Map<string, MessageChannel[]>();
+    messagesByContact?.forEach((messages, contactId) => {
+      result.set(contactId, getMessageChannels(messages));
+    });
+    return result;
+  }, [messagesByContact]);
 
-    return () => {
-      cancelled = true;
-    };
-  }, [filteredContactIds, searchQuery, messagesByContact]);
+  const datasetChannels = useMemo(() => {
+    const present = new Set(Array.from(channelsByContact.values()).flat());
+    return (Object.keys(CHANNEL_LABELS) as MessageChannel[]).filter(channel => present.has(channel));
+  }, [channelsByContact]);
 
   const filteredContacts = useMemo(() => {
-    if (!searchQuery.trim() || filteredContactIds === null) return contacts;
-
-    const resultSet = new Set(filteredContactIds);
-    return contacts.filter(contact => {
-      const contactId = contact.normalizedPhone || contact.phone;
-      return resultSet.has(contactId);
-    });
-  }, [contacts, searchQuery, filteredContactIds]);
-
-  const highlightSearchTerm = (text: string, query: string) => {
-    if (!query.trim()) return text;
-
-    // Escape regex special characters to prevent crashes
-    const escapedQuery = query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-
-    try {
-      const parts = text.split(new RegExp(`(${escapedQuery})`, 'gi'));
-      return parts.map((part, index) =>
-        part.toLowerCase() === query.toLowerCase() ? (
-          <mark key={index} className="bg-yellow-200 dark:bg-yellow-400/30 text-yellow-900 dark:text-yellow-200 px-0.5 rounded">
-            {part}
-          </mark>
-        ) : (
-          part
-        )
+    const visibleContacts = contacts.filter(contact =>
+      (!showDeletedOnly || contact.deletedCount > 0) &&
+      (channelFilter === 'all' ||
+        !!channelsByContact.get(contact.normalizedPhone || contact.phone)?.includes(channelFilter))
+    );
+    if (!searchQuery.trim() || searchResults === null) return visibleContacts;
+
+    // Ranked order from the search worker
+    const rankById = new Map(searchResults.contactIds.map((contactId, rank) => [contactId, rank]));
+    return visibleContacts
+      .filter(contact => rankById.has(contact.normalizedPhone || contact.phone))
+      .sort((a, b) =>
+        rankById.get(a.normalizedPhone || a.phone)! - rankById.get(b.normalizedPhone || b.phone)!
+      );
+  }, [contacts, searchQuery, searchResults, showDeletedOnly, channelFilter, channelsByContact]);
+
+  const showAllMatches = resultsMode === 'messages' && !!searchQuery.trim() &&
+    !!searchResults && searchResults.hits.length > 0 && !!messagesByContact;
+
+  // Wraps every match of the query's search terms in <mark>
+  const highlightSearchTerm = (text: string) => {
+    if (!highlightPattern || !text) return text;
+
+    const parts: React.ReactNode[] = [];
+    let lastIndex = 0;
+    highlightPattern.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = highlightPattern.exec(text)) !== null) {
+      // Zero-length regex matches would never advance
+      if (match[0].length === 0) {
+        highlightPattern.lastIndex++;
+        continue;
+      }
+      if (match.index > lastIndex) parts.push(text.slice(lastIndex, match.index));
+      parts.push(
+        <mark key={match.index} className="bg-yellow-200 dark:bg-yellow-400/30 text-yellow-900 dark:text-yellow-200 px-0.5 rounded">
+          {match[0]}
+        </mark>
       );
-    } catch {
-      return text;
+      lastIndex = match.index + match[0].length;
     }
+    if (parts.length === 0) return text;
+    if (lastIndex < text.length) parts.push(text.slice(lastIndex));
+    return parts;
   };
 
 
@@ -149,7 +190,7 @@ export default function ContactList({ contacts, selectedContactId, onContactSele
     <div className="flex flex-col h-full w-full bg-white dark:bg-gray-900 border-r border-gray-200 dark:border-gray-700">
       <div className="h-17 px-4 border-b border-gray-100 dark:border-gray-700 bg-white dark:bg-gray-900 flex items-center sticky top-0 z-10">
         <div className="relative w-full">
-          {isSearching ? (
+          {isSearching || isIndexing ? (
             <div className="absolute left-3 top-1/2 transform -translate-y-1/2">
               <div className="animate-spin h-4 w-4 border-2 border-blue-500 border-t-transparent rounded-full"></div>
             </div>
@@ -160,146 +201,275 @@ export default function ContactList({ contacts, selectedContactId, onContactSele
           )}
           <input
             type="text"
-            placeholder="Search conversations"
+            placeholder={isIndexing ? 'Indexing messages…' : 'Search conversations'}
+            title={'Words, "phrases", AND / OR / NOT, from:me, to:me, contact:, before:YYYY-MM-DD, after:, type:call, /regex/'}
             value={searchQuery}
             onChange={(e) => setSearchQuery(e.target.value)}
-            className="w-full pl-10 pr-10 py-2 rounded-xl bg-gray-100 dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-blue-500 focus:outline-none border border-transparent text-sm placeholder:text-gray-500 dark:placeholder:text-gray-400"
+            dir="auto"
+            className="w-full pl-10 pr-40 py-2 rounded-xl bg-gray-100 dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-blue-500 focus:outline-none border border-transparent text-sm placeholder:text-gray-500 dark:placeholder:text-gray-400"
           />
-          {searchQuery && (
+          <div className="absolute right-2 top-1/2 transform -translate-y-1/2 flex items-center gap-0.5">
+            {searchQuery && (
+              <button
+                onClick={() => setSearchQuery('')}
+                className="p-1 mr-1 text-gray-400 dark:text-gray-500 hover:text-gray-600 dark:hover:text-gray-300"
+                aria-label="Clear search"
+              >
+                <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            )}
+            {SEARCH_OPTION_TOGGLES.map(({ key, label, title }) => (
+              <button
+                key={key}
+                type="button"
+                onClick={() => setSearchOptions(options => ({ ...options, [key]: !options[key] }))}
+                aria-pressed={searchOptions[key]}
+                title={title}
+                className={`w-6 h-6 rounded-md text-xs font-semibold transition-colors ${
+                  searchOptions[key]
+                    ? 'bg-blue-600 text-white'
+                    : 'text-gray-500 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-700'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {searchQuery.trim() && searchResults && searchResults.hits.length > 0 && (
+        <div className="flex items-center gap-1 px-4 py-2 border-b border-gray-100 dark:border-gray-700">
+          {(['conversations', 'messages'] as const).map(mode => (
             <button
-              onClick={() => setSearchQuery('')}
-              className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400 dark:text-gray-500 hover:text-gray-600 dark:hover:text-gray-300"
+              key={mode}
+              onClick={() => setResultsMode(mode)}
+              className={`px-2.5 py-1 rounded-full text-xs font-medium transition-colors ${
+                resultsMode === mode
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700'
+              }`}
             >
-              <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-              </svg>
+              {mode === 'conversations'
+                ? `Conversations (${filteredContacts.length})`
+                : `Messages (${searchResults.hits.length.toLocaleString()})`}
             </button>
-          )}
+          ))}
         </div>
-      </div>
+      )}
 
-      <div className="flex-1 overflow-y-auto overflow-x-hidden contact-list-scroll">
-        {filteredContacts.length === 0 ? (
-          <div className="flex items-center justify-center h-32 text-gray-500 dark:text-gray-400">
-            <div className="text-center">
-              <svg className="mx-auto h-8 w-8 text-gray-300 dark:text-gray-600 mb-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 12h.01M12 12h.01M16 12h.01M21 12c0 4.418-3.582 8-8 8a8.959 8.959 0 01-4.906-1.468L3 21l1.468-5.094A8.959 8.959 0 013 12c0-4.418 3.582-8 8-8s8 3.582 8 8z" />
-              </svg>
-              <p className="text-sm">{searchQuery ? 'No matching conversations' : 'No conversations'}</p>
-              {searchQuery && (
+      {(totalDeleted > 0 || datasetChannels.length > 1) && (
+
+        <div className="flex items-center gap-2 px-4 py-2 border-b border-gray-100 dark:border-gray-700">
+          {datasetChannels.length > 1 && (
+            <div className="flex items-center gap-1" role="group" aria-label="Channel">
+              {(['all', ...datasetChannels] as (MessageChannel | 'all')[]).map(channel => (
                 <button
-                  onClick={() => setSearchQuery('')}
-                  className="text-xs text-blue-500 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300 mt-1"
+                  key={channel}
+                  onClick={() => setChannelFilter(channel)}
+                  aria-pressed={channelFilter === channel}
+                  className={`px-2.5 py-1 rounded-full text-xs font-medium transition-colors ${
+                    channelFilter === channel
+                      ? 'bg-blue-600 text-white'
+                      : 'bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700'
+                  }`}
+                  title={CHANNEL_FILTER_TITLES[channel]}
                 >
-                  Clear search
+                  {channel === 'all' ? 'All' : CHANNEL_LABELS[channel]}
                 </button>
-              )}
+              ))}
             </div>
-          </div>
-        ) : (
-          filteredContacts.map((contact) => {
-            const contactId = contact.normalizedPhone || contact.phone;
-            const isSelected = contactId === selectedContactId;
-            const displayName = getContactDisplayName(contact);
-            const avatarColor = getContactColor(contactId);
-            const textColor = getContactTextColor();
-
-            return (
-              <div
-                key={contactId}
-                onClick={() => {
-                  const targetId = matchMetaByContact.get(contactId)?.messageId;
-                  onContactSelect(contactId, targetId);
-                }}
-                className={`flex items-center p-4 hover:bg-gray-50 dark:hover:bg-gray-800 cursor-pointer transition-colors ${
-                  isSelected ? 'bg-blue-50 dark:bg-blue-900/20 border-r-2 border-blue-500' : ''
-                }`}
-              >
-                <div className={`flex-shrink-0 w-12 h-12 bg-gradient-to-br ${avatarColor} rounded-full flex items-center justify-center shadow-inner`}>
-                  {contact.name && contact.name !== 'Unknown' ? (
-                    <span className={`text-sm font-medium ${textColor}`}>
-                      {displayName.charAt(0).toUpperCase()}
-                    </span>
-                  ) : (
-                    <svg className={`w-6 h-6 ${textColor}`} fill="currentColor" viewBox="0 0 24 24">
-                      <path fillRule="evenodd" d="M7.5 6a4.5 4.5 0 119 0 4.5 4.5 0 01-9 0zM3.751 20.105a8.25 8.25 0 0116.498 0 .75.75 0 01-.437.695A18.683 18.683 0 0112 22.5c-2.786 0-5.433-.608-7.812-1.7a.75.75 0 01-.437-.695z" clipRule="evenodd" />
-                    </svg>
-                  )}
-                </div>
-
-                <div className="ml-3 flex-1 min-w-0">
-                  <div className="flex items-center justify-between">
-                    <p className={`text-sm font-medium truncate tracking-tight ${
-                      isSelected ? 'text-blue-900 dark:text-blue-100' : 'text-gray-900 dark:text-gray-100'
-                    }`}>
-                      {highlightSearchTerm(displayName, searchQuery)}
-                    </p>
-                    <p className={`text-[11px] md:text-xs ${
-                      isSelected ? 'text-blue-600 dark:text-blue-300' : 'text-gray-500 dark:text-gray-400'
-                    }`}>
-                      {formatMessageTime(contact.lastMessageTime)}
-                    </p>
+          )}
+          {totalDeleted > 0 && (
+            <button
+              onClick={() => setShowDeletedOnly(prev => !prev)}
+              className={`inline-flex items-center gap-1 px-2.5 py-1 rounded-full text-xs font-medium transition-colors ${
+                showDeletedOnly
+                  ? 'bg-red-600 text-white'
+                  : 'bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700'
+              }`}
+              title="Only show conversations with recovered deleted messages"
+            >
+              <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+              </svg>
+              Deleted ({totalDeleted})
+            </button>
+          )}
+        </div>
+      )}
+
+      {showAllMatches ? (
+        <div className="flex-1 min-h-0">
+          <SearchResultsList
+            results={searchResults}
+            contacts={contacts}
+            messagesByContact={messagesByContact}
+            onResultSelect={onContactSelect}
+          />
+        </div>
+      ) : (
+        <div className="flex-1 overflow-y-auto overflow-x-hidden contact-list-scroll">
+          {filteredContacts.length === 0 ? (
+            <div className="flex items-center justify-center h-32 text-gray-500 dark:text-gray-400">
+              <div className="text-center">
+                <svg className="mx-auto h-8 w-8 text-gray-300 dark:text-gray-600 mb-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 12h.01M12 12h.01M16 12h.01M21 12c0 4.418-3.582 8-8 8a8.959 8.959 0 01-4.906-1.468L3 21l1.468-5.094A8.959 8.959 0 013 12c0-4.418 3.582-8 8-8s8 3.582 8 8z" />
+                </svg>
+                <p className="text-sm">{searchQuery || showDeletedOnly || channelFilter !== 'all' ? 'No matching conversations' : 'No conversations'}</p>
+                {searchQuery && (
+                  <button
+                    onClick={() => setSearchQuery('')}
+                    className="text-xs text-blue-500 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300 mt-1"
+                  >
+                    Clear search
+                  </button>
+                )}
+              </div>
+            </div>
+          ) : (
+            filteredContacts.map((contact) => {
+              const contactId = contact.normalizedPhone || contact.phone;
+              const isSelected = contactId === selectedContactId;
+              const displayName = getContactDisplayName(contact);
+              const avatarColor = getContactColor(contactId);
+              const textColor = getContactTextColor();
+
+              return (
+                <div
+                  key={contactId}
+                  onClick={() => {
+                    const targetId = matchMetaByContact.get(contactId)?.messageId;
+                    onContactSelect(contactId, targetId);
+                  }}
+                  className={`flex items-center p-4 hover:bg-gray-50 dark:hover:bg-gray-800 cursor-pointer transition-colors ${
+                    isSelected ? 'bg-blue-50 dark:bg-blue-900/20 border-r-2 border-blue-500' : ''
+                  }`}
+                >
+                  <div className={`flex-shrink-0 w-12 h-12 bg-gradient-to-br ${avatarColor} rounded-full flex items-center justify-center shadow-inner`}>
+                    {contact.photo ? (
+                      <img src={contact.photo} alt="" className="w-full h-full rounded-full object-cover" />
+                    ) : contact.name && contact.name !== 'Unknown' ? (
+                      <span className={`text-sm font-medium ${textColor}`}>
+                        {displayName.charAt(0).toUpperCase()}
+                      </span>
+                    ) : (
+                      <svg className={`w-6 h-6 ${textColor}`} fill="currentColor" viewBox="0 0 24 24">
+                        <path fillRule="evenodd" d="M7.5 6a4.5 4.5 0 119 0 4.5 4.5 0 01-9 0zM3.751 20.105a8.25 8.25 0 0116.498 0 .75.75 0 01-.437.695A18.683 18.683 0 0112 22.5c-2.786 0-5.433-.608-7.812-1.7a.75.75 0 01-.437-.695z" clipRule="evenodd" />
+                      </svg>
+                    )}
                   </div>
 
-                  <div className="flex items-center justify-between mt-1">
-                    <p className={`text-sm truncate ${
-                      isSelected ? 'text-blue-700 dark:text-blue-200' : 'text-gray-600 dark:text-gray-300'
-                    }`}>
-                      {highlightSearchTerm(contact.lastMessage, searchQuery)}
-                    </p>
-
-                    <div className="flex items-center gap-2 ml-2 flex-shrink-0">
-                      {contact.messageCount > 1 && (
-                        <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${
-                          isSelected
-                            ? 'bg-blue-100 dark:bg-blue-800/30 text-blue-800 dark:text-blue-200'
-                            : 'bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-300'
-                        }`}>
-                          {contact.messageCount}
-                        </span>
-                      )}
-
-                      {!contact.isRead && (
-                        <div className="w-2 h-2 bg-blue-500 rounded-full"></div>
-                      )}
+                  <div className="ml-3 flex-1 min-w-0">
+                    <div className="flex items-center justify-between">
+                      <p
+                        className={`text-sm font-medium truncate tracking-tight ${
+                          isSelected ? 'text-blue-900 dark:text-blue-100' : 'text-gray-900 dark:text-gray-100'
+                        }`}
+                        title={describeNameSource(contact) ?? undefined}
+                      >
+                        {highlightSearchTerm(displayName)}
+                      </p>
+                      <p className={`text-[11px] md:text-xs ${
+                        isSelected ? 'text-blue-600 dark:text-blue-300' : 'text-gray-500 dark:text-gray-400'
+                      }`}>
+                        {formatMessageTime(contact.lastMessageTime, zoneFor(contact.lastMessageUtcOffset))}
+                      </p>
                     </div>
-                  </div>
 
-                  {searchQuery && matchMetaByContact.has(contactId) && (
-                    <div className="mt-1.5 flex items-start gap-1.5 bg-blue-50 dark:bg-blue-900/20 px-2 py-1.5 rounded">
-                      <svg className="w-3.5 h-3.5 text-blue-500 dark:text-blue-400 flex-shrink-0 mt-0.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
-                      </svg>
-                      <button
-                        type="button"
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          const meta = matchMetaByContact.get(contactId);
-                          if (meta) onContactSelect(contactId, meta.messageId);
-                        }}
-                        className="flex-1 text-left text-xs text-gray-700 dark:text-gray-300 hover:text-blue-700 dark:hover:text-blue-300 font-medium"
-                        title="Click to jump to this message"
-                      >
-                        <span className="line-clamp-2">
-                          {highlightSearchTerm(matchMetaByContact.get(contactId)!.snippet, searchQuery)}
-                        </span>
-                      </button>
+                    <div className="flex items-center justify-between mt-1">
+                      <p className={`text-sm truncate ${
+                        isSelected ? 'text-blue-700 dark:text-blue-200' : 'text-gray-600 dark:text-gray-300'
+                      }`}>
+                        {highlightSearchTerm(contact.lastMessage)}
+                      </p>
+
+                      <div className="flex items-center gap-2 ml-2 flex-shrink-0">
+                        {contact.messageCount > 1 && (
+                          <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${
+                            isSelected
+                              ? 'bg-blue-100 dark:bg-blue-800/30 text-blue-800 dark:text-blue-200'
+                              : 'bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-300'
+                          }`}>
+                            {contact.messageCount}
+                          </span>
+                        )}
+
+                        {(contact.phoneKind === 'shortCode' || contact.phoneKind === 'senderId') && (
+                          <span
+                            className="px-1.5 py-0.5 rounded text-[10px] font-medium uppercase tracking-wide bg-gray-100 dark:bg-gray-800 text-gray-500 dark:text-gray-400"
+                            title={contact.phoneKind === 'shortCode'
+                              ? 'Service short code, not a phone number'
+                              : 'Alphanumeric sender ID, not a phone number'}
+                          >
+                            {contact.phoneKind === 'shortCode' ? 'Short code' : 'Sender'}
+                          </span>
+                        )}
+
+                        {contact.deletedCount > 0 && (
+                          <span
+                            className="inline-flex items-center gap-0.5 px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300"
+                            title={`${contact.deletedCount} recovered deleted message${contact.deletedCount === 1 ? '' : 's'}`}
+                          >
+                            <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                            </svg>
+                            {contact.deletedCount}
+                          </span>
+                        )}
+
+                        {!contact.isRead && (
+                          <div className="w-2 h-2 bg-blue-500 rounded-full"></div>
+                        )}
+                      </div>
                     </div>
-                  )}
-
-                  {contact.name && contact.name !== 'Unknown' && (
-                    <p className={`text-xs mt-1 ${
-                      isSelected ? 'text-blue-600 dark:text-blue-300' : 'text-gray-400 dark:text-gray-500'
-                    }`}>
-                      {highlightSearchTerm(contact.phone, searchQuery)}
-                    </p>
-                  )}
+
+                    {searchQuery && matchMetaByContact.has(contactId) && (
+                      <div className="mt-1.5 flex items-start gap-1.5 bg-blue-50 dark:bg-blue-900/20 px-2 py-1.5 rounded">
+                        <svg className="w-3.5 h-3.5 text-blue-500 dark:text-blue-400 flex-shrink-0 mt-0.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+                        </svg>
+                        <button
+                          type="button"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            const meta = matchMetaByContact.get(contactId);
+                            if (meta) onContactSelect(contactId, meta.messageId);
+                          }}
+                          className="flex-1 text-start text-xs text-gray-700 dark:text-gray-300 hover:text-blue-700 dark:hover:text-blue-300 font-medium"
+                          title="Click to jump to this message"
+                        >
+                          <span className="line-clamp-2" dir={getTextDirection(matchMetaByContact.get(contactId)!.snippet)}>
+                            <HighlightedText
+                              text={matchMetaByContact.get(contactId)!.snippet}
+                              highlights={matchMetaByContact.get(contactId)!.highlights}
+                            />
+                          </span>
+                          {matchMetaByContact.get(contactId)!.matchCount > 1 && (
+                            <span className="block mt-0.5 text-[11px] font-normal text-blue-600 dark:text-blue-400">
+                              {matchMetaByContact.get(contactId)!.matchCount} matching messages
+                            </span>
+                          )}
+                        </button>
+                      </div>
+                    )}
+
+                    {contact.name && contact.name !== 'Unknown' && (
+                      <p className={`text-xs mt-1 ${
+                        isSelected ? 'text-blue-600 dark:text-blue-300' : 'text-gray-400 dark:text-gray-500'
+                      }`}>
+                        {contactId === UNATTRIBUTED_CONTACT_ID ? UNATTRIBUTED_DESCRIPTION : highlightSearchTerm(contact.phone)}
+                      </p>
+                    )}
+                  </div>
                 </div>
-              </div>
-            );
-          })
-        )}
-      </div>
+              );
+            })
+          )}
+        </div>
+      )}
     </div>
   );
 }
\ No newline at end of file
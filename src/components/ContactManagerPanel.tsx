@@ -0,0 +1,294 @@
+import { useMemo, useState } from 'react';
+import type { Contact, ContactOverrides, Message } from '../types';
+import { getContactDisplayName } from '../utils/messageUtils';
+import { getNormalizedStats, getSplitContactId } from '../utils/contactOverrides';
+
+// Rows rendered at once; the filter narrows larger address books
+const MAX_VISIBLE_CONTACTS = 200;
+
+interface ContactManagerPanelProps {
+  // After overrides
+  contacts: Contact[];
+  messagesByContact: Map<string, Message[]>;
+  // As imported, to name conversations that were merged away
+  originalContacts: Contact[];
+  overrides: ContactOverrides;
+  onMerge: (contactIds: string[], targetId: string) => void;
+  onUnmerge: (contactId: string) => void;
+  onSplit: (rawPhone: string) => void;
+  onRejoin: (rawPhone: string) => void;
+  onReset: () => void;
+  onClose: () => void;
+}
+
+export default function ContactManagerPanel({
+  contacts,
+  messagesByContact,
+  originalContacts,
+  overrides,
+  onMerge,
+  onUnmerge,
+  onSplit,
+  onRejoin,
+  onReset,
+  onClose,
+}: ContactManagerPanelProps) {
+  const [filter, setFilter] = useState('');
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [targetId, setTargetId] = useState<string | null>(null);
+
+  const stats = useMemo(() => getNormalizedStats(contacts, messagesByContact), [contacts, messagesByContact]);
+
+  // Messages per number as written, for each conversation
+  const variationCounts = useMemo(() => {
+    const counts = new Map<string, Map<string, number>>();
+    messagesByContact.forEach((messages, contactId) => {
+      const byPhone = new Map<string, number>();
+      messages.forEach(message => byPhone.set(message.rawPhone, (byPhone.get(message.rawPhone) || 0) + 1));
+      counts.set(contactId, byPhone);
+    });
+    return counts;
+  }, [messagesByContact]);
+
+  const contactNames = useMemo(() => {
+    const names = new Map<string, string>();
+    [...originalContacts, ...contacts].forEach(contact => {
+      names.set(contact.normalizedPhone || contact.phone, getContactDisplayName(contact));
+    });
+    return names;
+  }, [originalContacts, contacts]);
+
+  // Conversations merged into each remaining one
+  const mergedInto = useMemo(() => {
+    const result = new Map<string, string[]>();
+    Object.entries(overrides.merges).forEach(([from, to]) => {
+      const list = result.get(to) || [];
+      list.push(from);
+      result.set(to, list);
+    });
+    return result;
+  }, [overrides.merges]);
+
+  const visibleContacts = useMemo(() => {
+    const query = filter.trim().toLowerCase();
+    if (!query) return contacts;
+    return contacts.filter(contact => {
+      const contactId = contact.normalizedPhone || contact.phone;
+      return getContactDisplayName(contact).toLowerCase().includes(query) ||
+        contactId.toLowerCase().includes(query) ||
+        stats.phoneVariations[contactId]?.some(phone => phone.toLowerCase().includes(query));
+    });
+  }, [contacts, filter, stats]);
+
+  const contactsById = useMemo(
+    () => new Map(contacts.map(contact => [contact.normalizedPhone || contact.phone, contact])),
+    [contacts]
+  );
+  // Selections of conversations that have since disappeared are dropped
+  const selection = selectedIds.filter(contactId => contactsById.has(contactId));
+  // Default target: the selected conversation with the most messages
+  const mergeTarget = targetId && selection.includes(targetId)
+    ? targetId
+    : selection.reduce<string | null>((best, contactId) =>
+      !best || contactsById.get(contactId)!.messageCount > contactsById.get(best)!.messageCount
+        ? contactId
+        : best,
+    null);
+
+  const toggleSelected = (contactId: string) => {
+    setSelectedIds(current => current.includes(contactId)
+      ? current.filter(id => id !== contactId)
+      : [...current, contactId]
+    );
+  };
+
+  const handleMerge = () => {
+    if (!mergeTarget || selection.length < 2) return;
+    onMerge(selection, mergeTarget);
+    setSelectedIds([]);
+    setTargetId(null);
+  };
+
+  const hasOverrides = Object.keys(overrides.merges).length > 0 || overrides.splits.length > 0;
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center bg-black/40 p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-3xl h-[80vh] flex flex-col bg-white dark:bg-gray-900 rounded-xl shadow-xl border border-gray-200 dark:border-gray-700"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-4 py-3 border-b border-gray-100 dark:border-gray-700">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100 tracking-tight">Contacts</h2>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              {stats.totalContacts.toLocaleString()} number{stats.totalContacts === 1 ? '' : 's'} in {stats.uniqueContacts.toLocaleString()} conversation{stats.uniqueContacts === 1 ? '' : 's'}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            {hasOverrides && (
+              <button
+                onClick={onReset}
+                className="px-2.5 py-1 rounded-full text-xs font-medium text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20"
+                title="Undo every merge and split made on this dataset"
+              >
+                Reset all
+              </button>
+            )}
+            <button
+              onClick={onClose}
+              className="p-2 rounded-full text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800"
+              aria-label="Close contacts"
+            >
+              <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        <div className="px-4 py-2 border-b border-gray-100 dark:border-gray-700">
+          <input
+            type="text"
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            placeholder="Filter by name or number"
+            className="w-full px-3 py-1.5 rounded-lg bg-gray-100 dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-blue-500 focus:outline-none border border-transparent text-sm placeholder:text-gray-500 dark:placeholder:text-gray-400"
+          />
+        </div>
+
+        <div className="flex-1 min-h-0 overflow-y-auto">
+          {visibleContacts.slice(0, MAX_VISIBLE_CONTACTS).map(contact => {
+            const contactId = contact.normalizedPhone || contact.phone;
+            const variations = stats.phoneVariations[contactId] || [];
+            const counts = variationCounts.get(contactId);
+            const splitPhone = contactId === getSplitContactId(contact.phone) ? contact.phone : null;
+            const merged = mergedInto.get(contactId) || [];
+
+            return (
+              <div key={contactId} className="flex items-start gap-3 px-4 py-3 border-b border-gray-100 dark:border-gray-800">
+                <input
+                  type="checkbox"
+                  checked={selection.includes(contactId)}
+                  onChange={() => toggleSelected(contactId)}
+                  className="mt-1"
+                  aria-label={`Select ${getContactDisplayName(contact)} for merging`}
+                />
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center justify-between gap-2">
+                    <p className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">
+                      {getContactDisplayName(contact)}
+                    </p>
+                    <span className="text-xs text-gray-500 dark:text-gray-400 flex-shrink-0">
+                      {contact.messageCount.toLocaleString()} message{contact.messageCount === 1 ? '' : 's'}
+                    </span>
+                  </div>
+
+                  <div className="flex flex-wrap items-center gap-1.5 mt-1.5">
+                    {variations.map(phone => (
+                      <span
+                        key={phone}
+                        className="inline-flex items-center gap-1 pl-2 pr-1 py-0.5 rounded-full text-xs bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300"
+                      >
+                        <span className="font-mono">{phone}</span>
+                        <span className="text-gray-400 dark:text-gray-500">×{counts?.get(phone) || 0}</span>
+                        {variations.length > 1 && (
+                          <button
+                            onClick={() => onSplit(phone)}
+                            className="px-1.5 rounded-full text-[11px] font-medium text-blue-600 dark:text-blue-400 hover:bg-blue-100 dark:hover:bg-blue-900/30"
+                            title="Move this number's messages into a conversation of their own"
+                          >
+                            Split
+                          </button>
+                        )}
+                      </span>
+                    ))}
+                    {splitPhone && (
+                      <button
+                        onClick={() => onRejoin(splitPhone)}
+                        className="px-2 py-0.5 rounded-full text-[11px] font-medium text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/30"
+                        title="Put this number back into the conversation it was split from"
+                      >
+                        Rejoin
+                      </button>
+                    )}
+                  </div>
+
+                  {merged.length > 0 && (
+                    <div className="flex flex-wrap items-center gap-1.5 mt-1.5 text-xs text-gray-500 dark:text-gray-400">
+                      <span>Merged from</span>
+                      {merged.map(sourceId => (
+                        <span
+                          key={sourceId}
+                          className="inline-flex items-center gap-1 pl-2 pr-1 py-0.5 rounded-full bg-blue-50 dark:bg-blue-900/20 text-blue-800 dark:text-blue-200"
+                        >
+                          {contactNames.get(sourceId) || sourceId}
+                          <button
+                            onClick={() => onUnmerge(sourceId)}
+                            className="px-1.5 rounded-full text-[11px] font-medium hover:bg-blue-100 dark:hover:bg-blue-900/40"
+                            title="Give this conversation its own thread again"
+                          >
+                            Unmerge
+                          </button>
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+          {visibleContacts.length > MAX_VISIBLE_CONTACTS && (
+            <p className="px-4 py-3 text-xs text-center text-gray-500 dark:text-gray-400">
+              {(visibleContacts.length - MAX_VISIBLE_CONTACTS).toLocaleString()} more – narrow the filter to see them
+            </p>
+          )}
+          {visibleContacts.length === 0 && (
+            <div className="flex items-center justify-center h-32 text-sm text-gray-500 dark:text-gray-400">
+              No contacts match the filter
+            </div>
+          )}
+        </div>
+
+        {selection.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2 px-4 py-3 border-t border-gray-100 dark:border-gray-700">
+            <span className="text-xs text-gray-600 dark:text-gray-300">
+              {selection.length} selected
+            </span>
+            {selection.length > 1 && (
+              <>
+                <span className="text-xs text-gray-500 dark:text-gray-400">– merge into</span>
+                <select
+                  value={mergeTarget || ''}
+                  onChange={(e) => setTargetId(e.target.value)}
+                  className="text-xs px-2 py-1 rounded-md bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 border border-transparent focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                  aria-label="Conversation to merge into"
+                >
+                  {selection.map(contactId => (
+                    <option key={contactId} value={contactId}>
+                      {contactNames.get(contactId) || contactId}
+                    </option>
+                  ))}
+                </select>
+              </>
+            )}
+            <div className="ml-auto flex items-center gap-2">
+              <button
+                onClick={() => setSelectedIds([])}
+                className="px-3 py-1 rounded-full text-xs font-medium text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800"
+              >
+                Clear
+              </button>
+              <button
+                onClick={handleMerge}
+                disabled={selection.length < 2}
+                className="px-3 py-1 rounded-full text-xs font-medium bg-blue-600 text-white hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+              >
+                Merge
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+import { useMemo, useState } from 'react';
+import type { Contact, Message } from '../types';
+import { getContactDisplayName } from '../utils/messageUtils';
+import {
+  buildConversationCsv,
+  buildConversationHtml,
+  downloadFile,
+  filterMessagesByDay,
+  getExportFileName,
+  openInNewTab,
+} from '../utils/exportUtils';
+import type { ConversationExportFormat } from '../utils/exportUtils';
+import { getLocalTimeZone } from '../utils/timeZoneUtils';
+import { useDisplayTimeZone } from '../hooks/useDisplayTimeZone';
+
+const FORMATS: { value: ConversationExportFormat; label: string; description: string }[] = [
+  { value: 'html', label: 'HTML', description: 'Standalone page styled like the conversation' },
+  { value: 'print', label: 'Print / PDF', description: 'Plain layout opened in the print dialog' },
+  { value: 'csv', label: 'CSV', description: 'One row per message, for spreadsheets' },
+];
+
+interface ConversationExportDialogProps {
+  contact: Contact;
+  messages: Message[];
+  onClose: () => void;
+}
+
+export default function ConversationExportDialog({ contact, messages, onClose }: ConversationExportDialogProps) {
+  const { displayTimeZone, zoneFor } = useDisplayTimeZone();
+  const [format, setFormat] = useState<ConversationExportFormat>('html');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+
+  const selectedMessages = useMemo(
+    () => filterMessagesByDay(messages, { from, to, zoneFor }),
+    [messages, from, to, zoneFor]
+  );
+
+  const handleExport = () => {
+    const options = {
+      from,
+      to,
+      zoneFor,
+      timeZoneLabel: displayTimeZone === 'source'
+        ? 'As written in each record'
+        : displayTimeZone === 'local' ? getLocalTimeZone() : displayTimeZone,
+    };
+    if (format === 'csv') {
+      downloadFile(buildConversationCsv(contact, selectedMessages, options), getExportFileName(contact, 'csv'), 'text/csv');
+    } else if (format === 'print') {
+      openInNewTab(buildConversationHtml(contact, selectedMessages, options, true));
+    } else {
+      downloadFile(buildConversationHtml(contact, selectedMessages, options), getExportFileName(contact, 'html'), 'text/html');
+    }
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center bg-black/40 p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-md flex flex-col bg-white dark:bg-gray-900 rounded-xl shadow-xl border border-gray-200 dark:border-gray-700"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-4 py-3 border-b border-gray-100 dark:border-gray-700">
+          <div className="min-w-0">
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100 tracking-tight">Export conversation</h2>
+            <p className="text-xs text-gray-500 dark:text-gray-400 truncate">{getContactDisplayName(contact)}</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-full text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800"
+            aria-label="Close export"
+          >
+            <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="px-4 py-3 space-y-4">
+          <fieldset className="space-y-1.5">
+            <legend className="text-xs font-medium text-gray-600 dark:text-gray-300 mb-1">Format</legend>
+            {FORMATS.map(option => (
+              <label key={option.value} className="flex items-start gap-2 cursor-pointer">
+                <input
+                  type="radio"
+                  name="export-format"
+                  value={option.value}
+                  checked={format === option.value}
+                  onChange={() => setFormat(option.value)}
+                  className="mt-1"
+                />
+                <span>
+                  <span className="block text-sm text-gray-900 dark:text-gray-100">{option.label}</span>
+                  <span className="block text-xs text-gray-500 dark:text-gray-400">{option.description}</span>
+                </span>
+              </label>
+            ))}
+          </fieldset>
+
+          <div>
+            <p className="text-xs font-medium text-gray-600 dark:text-gray-300 mb-1">Period (optional)</p>
+            <div className="flex items-center gap-2">
+              <input
+                type="date"
+                value={from}
+                max={to || undefined}
+                onChange={(e) => setFrom(e.target.value)}
+                className="flex-1 text-sm px-2 py-1 rounded-md bg-gray-100 dark:bg-gray-800 text-gray-900 dark:text-gray-100 border border-transparent focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                aria-label="First day"
+              />
+              <span className="text-xs text-gray-500 dark:text-gray-400">to</span>
+              <input
+                type="date"
+                value={to}
+                min={from || undefined}
+                onChange={(e) => setTo(e.target.value)}
+                className="flex-1 text-sm px-2 py-1 rounded-md bg-gray-100 dark:bg-gray-800 text-gray-900 dark:text-gray-100 border border-transparent focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                aria-label="Last day"
+              />
+            </div>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between gap-2 px-4 py-3 border-t border-gray-100 dark:border-gray-700">
+          <span className="text-xs text-gray-500 dark:text-gray-400">
+            {selectedMessages.length.toLocaleString()} of {messages.length.toLocaleString()} entries
+          </span>
+          <button
+            onClick={handleExport}
+            disabled={selectedMessages.length === 0}
+            className="px-3 py-1 rounded-full text-xs font-medium bg-blue-600 text-white hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+          >
+            Export
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,211 @@
+import { useMemo, useState } from 'react';
+import { List, AutoSizer } from 'react-virtualized';
+import type { Contact, DataQualityIssue, DataQualityIssueType, DataQualityReport } from '../types';
+import { getContactDisplayName } from '../utils/messageUtils';
+
+interface DataQualityPanelProps {
+  report: DataQualityReport;
+  contacts: Contact[];
+  onIssueSelect: (contactId: string, targetMessageId?: number) => void;
+  onClose: () => void;
+}
+
+const ISSUE_LABELS: Record<DataQualityIssueType, string> = {
+  invalid_timestamp: 'Invalid timestamp',
+  missing_field: 'Missing field',
+  invalid_date: 'Invalid date',
+  empty_value: 'Empty value',
+  invalid_format: 'Invalid format',
+};
+
+type ActionFilter = 'all' | DataQualityIssue['action'];
+
+export default function DataQualityPanel({ report, contacts, onIssueSelect, onClose }: DataQualityPanelProps) {
+  const [actionFilter, setActionFilter] = useState<ActionFilter>('all');
+  const [typeFilter, setTypeFilter] = useState<DataQualityIssueType | 'all'>('all');
+
+  const contactNames = useMemo(() => {
+    const names = new Map<string, string>();
+    contacts.forEach(contact => {
+      names.set(contact.normalizedPhone || contact.phone, getContactDisplayName(contact));
+    });
+    return names;
+  }, [contacts]);
+
+  const issueTypeCounts = useMemo(() => {
+    const counts = new Map<DataQualityIssueType, number>();
+    report.issues.forEach(issue => {
+      counts.set(issue.type, (counts.get(issue.type) || 0) + 1);
+    });
+    return counts;
+  }, [report.issues]);
+
+  const visibleIssues = useMemo(() => {
+    return report.issues.filter(issue =>
+      (actionFilter === 'all' || issue.action === actionFilter) &&
+      (typeFilter === 'all' || issue.type === typeFilter)
+    );
+  }, [report.issues, actionFilter, typeFilter]);
+
+  // Record positions are only ambiguous once several exports are merged
+  const hasSeveralSources = useMemo(
+    () => new Set(report.issues.map(issue => issue.source)).size > 1,
+    [report.issues]
+  );
+
+  const lostPercent = report.totalRecords > 0
+    ? ((report.skippedRecords / report.totalRecords) * 100).toFixed(1)
+    : '0.0';
+
+  const formatValue = (value: unknown): string => {
+    if (value === undefined) return 'undefined';
+    if (value === null) return 'null';
+    if (typeof value === 'string') return value === '' ? '""' : value;
+    try {
+      return JSON.stringify(value);
+    } catch {
+      return String(value);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center bg-black/40 p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-3xl h-[80vh] flex flex-col bg-white dark:bg-gray-900 rounded-xl shadow-xl border border-gray-200 dark:border-gray-700"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-4 py-3 border-b border-gray-100 dark:border-gray-700">
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100 tracking-tight">Data quality</h2>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-full text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800"
+            aria-label="Close data quality report"
+          >
+            <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className={`grid grid-cols-2 ${report.duplicateRecords > 0 ? 'md:grid-cols-6' : 'md:grid-cols-5'} gap-2 px-4 py-3 border-b border-gray-100 dark:border-gray-700`}>
+          <SummaryStat label="Total records" value={report.totalRecords} />
+          <SummaryStat label="Imported" value={report.validRecords} />
+          <SummaryStat label="Repaired" value={report.repairedRecords} tone="warning" />
+          <SummaryStat label={`Skipped (${lostPercent}%)`} value={report.skippedRecords} tone="error" />
+          <SummaryStat label="Other types" value={report.ignoredRecords} />
+          {report.duplicateRecords > 0 && (
+            <SummaryStat label="Merged duplicates" value={report.duplicateRecords} />
+          )}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 px-4 py-2 border-b border-gray-100 dark:border-gray-700">
+          {(['all', 'skipped', 'repaired'] as ActionFilter[]).map(action => (
+            <FilterChip
+              key={action}
+              active={actionFilter === action}
+              onClick={() => setActionFilter(action)}
+              label={action === 'all' ? 'All' : action === 'skipped' ? 'Skipped' : 'Repaired'}
+            />
+          ))}
+          <span className="mx-1 h-4 border-l border-gray-200 dark:border-gray-700" />
+          <FilterChip active={typeFilter === 'all'} onClick={() => setTypeFilter('all')} label="Any issue" />
+          {Array.from(issueTypeCounts.entries()).map(([type, count]) => (
+            <FilterChip
+              key={type}
+              active={typeFilter === type}
+              onClick={() => setTypeFilter(type)}
+              label={`${ISSUE_LABELS[type]} (${count})`}
+            />
+          ))}
+        </div>
+
+        <div className="flex-1 min-h-0">
+          {visibleIssues.length === 0 ? (
+            <div className="flex items-center justify-center h-32 text-sm text-gray-500 dark:text-gray-400">
+              {report.issues.length === 0 ? 'Every record was imported cleanly' : 'No issues match the current filter'}
+            </div>
+          ) : (
+            <AutoSizer>
+              {({ height, width }) => (
+                <List
+                  height={height}
+                  width={width}
+                  rowCount={visibleIssues.length}
+                  rowHeight={68}
+                  overscanRowCount={10}
+                  rowRenderer={({ index, key, style }) => {
+                    const issue = visibleIssues[index];
+                    const contactName = issue.contactId ? contactNames.get(issue.contactId) : undefined;
+                    return (
+                      <div key={key} style={style} className="px-4 border-b border-gray-100 dark:border-gray-800">
+                        <div className="h-full flex items-center gap-3">
+                          <span className={`flex-shrink-0 px-2 py-0.5 rounded-full text-xs font-medium ${
+                            issue.action === 'skipped'
+                              ? 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300'
+                              : 'bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300'
+                          }`}>
+                            {issue.action === 'skipped' ? 'Skipped' : 'Repaired'}
+                          </span>
+                          <div className="flex-1 min-w-0">
+                            <p className="text-sm text-gray-900 dark:text-gray-100 truncate">
+                              {issue.message}
+                            </p>
+                            <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                              {hasSeveralSources && issue.source ? `${issue.source} ` : ''}
+                              #{issue.index !== undefined ? issue.index + 1 : '?'}
+                              {issue.recordId ? ` · ID ${issue.recordId}` : ''}
+                              {` · ${issue.field} = ${formatValue(issue.value)}`}
+                            </p>
+                          </div>
+                          {issue.contactId && contactName && (
+                            <button
+                              onClick={() => onIssueSelect(issue.contactId!, issue.messageId)}
+                              className="flex-shrink-0 max-w-[10rem] truncate text-xs text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300 font-medium"
+                              title="Open the affected conversation"
+                            >
+                              {contactName} →
+                            </button>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  }}
+                />
+              )}
+            </AutoSizer>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function SummaryStat({ label, value, tone }: { label: string; value: number; tone?: 'warning' | 'error' }) {
+  const valueColor = tone === 'error' && value > 0
+    ? 'text-red-600 dark:text-red-400'
+    : tone === 'warning' && value > 0
+      ? 'text-amber-600 dark:text-amber-400'
+      : 'text-gray-900 dark:text-gray-100';
+
+  return (
+    <div className="rounded-lg bg-gray-50 dark:bg-gray-800 px-3 py-2">
+      <p className={`text-lg font-semibold ${valueColor}`}>{value.toLocaleString()}</p>
+      <p className="text-xs text-gray-500 dark:text-gray-400">{label}</p>
+    </div>
+  );
+}
+
+function FilterChip({ label, active, onClick }: { label: string; active: boolean; onClick: () => void }) {
+  return (
+    <button
+      onClick={onClick}
+      className={`px-2.5 py-1 rounded-full text-xs font-medium transition-colors ${
+        active
+          ? 'bg-blue-600 text-white'
+          : 'bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700'
+      }`}
+    >
+      {label}
+    </button>
+  );
+}
@@ -0,0 +1,35 @@
+interface HighlightedTextProps {
+  text: string;
+  // Sorted, non-overlapping [start, end) ranges into text
+  highlights: [number, number][];
+  // Index into highlights of the range to emphasise (e.g. the current find match)
+  activeIndex?: number;
+  // Padding around marks changes line wrapping, which measured rows cannot afford
+  compact?: boolean;
+}
+
+export default function HighlightedText({ text, highlights, activeIndex, compact = false }: HighlightedTextProps) {
+  if (highlights.length === 0) return <>{text}</>;
+
+  const parts: React.ReactNode[] = [];
+  let lastIndex = 0;
+  highlights.forEach(([from, to], index) => {
+    if (from > lastIndex) parts.push(text.slice(lastIndex, from));
+    parts.push(
+      <mark
+        key={from}
+        className={`${compact ? '' : 'px-0.5 '}rounded ${
+          index === activeIndex
+            ? 'bg-orange-400 dark:bg-orange-500 text-gray-900'
+            : 'bg-yellow-200 dark:bg-yellow-400/30 text-yellow-900 dark:text-yellow-200'
+        }`}
+      >
+        {text.slice(from, to)}
+      </mark>
+    );
+    lastIndex = to;
+  });
+  if (lastIndex < text.length) parts.push(text.slice(lastIndex));
+
+  return <>{parts}</>;
+}
@@ -0,0 +1,67 @@
+import type { ImportPhase, ImportProgress } from '../types';
+
+const PHASE_LABELS: Record<ImportPhase, string> = {
+  reading: 'Reading export',
+  processing: 'Processing records',
+  transferring: 'Preparing conversations',
+};
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+interface ImportProgressBarProps {
+  progress: ImportProgress | null;
+}
+
+export default function ImportProgressBar({ progress }: ImportProgressBarProps) {
+  const phase = progress?.phase ?? 'reading';
+  const loaded = progress?.loaded ?? 0;
+  const total = progress?.total ?? 0;
+  // Without a known total (e.g. no Content-Length) the bar is indeterminate
+  const percent = total > 0 ? Math.min(100, Math.round((loaded / total) * 100)) : null;
+
+  let detail = '';
+  if (phase === 'reading') {
+    detail = total > 0
+      ? `${formatBytes(loaded)} of ${formatBytes(total)}`
+      : formatBytes(loaded);
+  } else if (total > 0) {
+    detail = `${loaded.toLocaleString()} of ${total.toLocaleString()}`;
+  }
+
+  return (
+    <div className="w-full max-w-sm px-4" role="status" aria-live="polite">
+      <div className="flex items-baseline justify-between mb-2 text-sm text-gray-600 dark:text-gray-300">
+        <span className="truncate">
+          {PHASE_LABELS[phase]}
+          {progress?.source ? ` ${progress.source}` : ''}…
+        </span>
+        {percent !== null && <span className="tabular-nums">{percent}%</span>}
+      </div>
+      <div
+        className="h-2 w-full rounded-full bg-gray-200 dark:bg-gray-700 overflow-hidden"
+        role="progressbar"
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={percent ?? undefined}
+      >
+        {percent !== null ? (
+          <div
+            className="h-full bg-blue-600 transition-[width] duration-150"
+            style={{ width: `${percent}%` }}
+          />
+        ) : (
+          <div className="h-full w-1/3 bg-blue-600 animate-pulse" />
+        )}
+      </div>
+      {detail && (
+        <div className="mt-1 text-xs text-gray-500 dark:text-gray-400 tabular-nums">
+          {detail}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,400 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { List, AutoSizer } from 'react-virtualized';
+import type { Contact, Message } from '../types';
+import { formatDetailedMessageTime, getContactDisplayName } from '../utils/messageUtils';
+import { formatGeoPoint } from '../utils/locationUtils';
+import { getContactHexColor } from '../utils/contactColors';
+import { useDisplayTimeZone } from '../hooks/useDisplayTimeZone';
+
+interface MapViewProps {
+  contacts: Contact[];
+  messagesByContact: Map<string, Message[]>;
+  initialContactId?: string | null;
+  onContactSelect: (contactId: string, targetMessageId?: number) => void;
+}
+
+type LocatedMessage = {
+  key: string;
+  contactId: string;
+  message: Message;
+  // Projected coordinates (equirectangular, y grows southwards)
+  x: number;
+  y: number;
+};
+
+type ViewBox = { x: number; y: number; width: number; height: number };
+
+// Graticule spacing candidates in degrees
+const GRID_STEPS = [0.001, 0.002, 0.005, 0.01, 0.02, 0.05, 0.1, 0.2, 0.5, 1, 2, 5, 10, 15, 30];
+
+const fitViewBox = (points: LocatedMessage[]): ViewBox => {
+  if (points.length === 0) return { x: -180, y: -90, width: 360, height: 180 };
+
+  let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
+  points.forEach(({ x, y }) => {
+    minX = Math.min(minX, x);
+    maxX = Math.max(maxX, x);
+    minY = Math.min(minY, y);
+    maxY = Math.max(maxY, y);
+  });
+
+  // Keep a sensible minimum extent so a single point is not infinitely zoomed
+  const width = Math.max(maxX - minX, 0.01);
+  const height = Math.max(maxY - minY, 0.01);
+  const padX = width * 0.15;
+  const padY = height * 0.15;
+  return {
+    x: (minX + maxX) / 2 - width / 2 - padX,
+    y: (minY + maxY) / 2 - height / 2 - padY,
+    width: width + padX * 2,
+    height: height + padY * 2,
+  };
+};
+
+export default function MapView({ contacts, messagesByContact, initialContactId, onContactSelect }: MapViewProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const { zoneFor } = useDisplayTimeZone();
+  const dragRef = useRef<{ clientX: number; clientY: number; viewBox: ViewBox } | null>(null);
+  const [scope, setScope] = useState<string>(() =>
+    initialContactId && messagesByContact.get(initialContactId)?.some(m => m.location)
+      ? initialContactId
+      : 'all'
+  );
+  const [viewBox, setViewBox] = useState<ViewBox | null>(null);
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+
+  const contactsById = useMemo(() => {
+    const map = new Map<string, Contact>();
+    contacts.forEach(contact => map.set(contact.normalizedPhone || contact.phone, contact));
+    return map;
+  }, [contacts]);
+
+  // Contacts that have at least one located message, for the scope picker
+  const locatedContacts = useMemo(() => {
+    const result: { contactId: string; count: number }[] = [];
+    messagesByContact.forEach((messages, contactId) => {
+      const count = messages.filter(m => m.location).length;
+      if (count > 0) result.push({ contactId, count });
+    });
+    return result.sort((a, b) => b.count - a.count);
+  }, [messagesByContact]);
+
+  const { points, referenceLatitude } = useMemo(() => {
+    const located: { contactId: string; message: Message }[] = [];
+    messagesByContact.forEach((messages, contactId) => {
+      if (scope !== 'all' && scope !== contactId) return;
+      messages.forEach(message => {
+        if (message.location) located.push({ contactId, message });
+      });
+    });
+
+    // Scale longitudes by the cosine of the mean latitude so distances look right locally
+    const meanLatitude = located.length
+      ? located.reduce((sum, { message }) => sum + message.location!.latitude, 0) / located.length
+      : 0;
+    const scale = Math.cos((meanLatitude * Math.PI) / 180);
+
+    const projected: LocatedMessage[] = located
+      .sort((a, b) => b.message.timestamp.getTime() - a.message.timestamp.getTime())
+      .map(({ contactId, message }) => ({
+        key: `${contactId}:${message.id}`,
+        contactId,
+        message,
+        x: message.location!.longitude * scale,
+        y: -message.location!.latitude,
+      }));
+
+    return { points: projected, referenceLatitude: meanLatitude };
+  }, [messagesByContact, scope]);
+
+  const fittedViewBox = useMemo(() => fitViewBox(points), [points]);
+  const currentViewBox = viewBox || fittedViewBox;
+
+  useEffect(() => {
+    setViewBox(null);
+    setSelectedKey(null);
+  }, [points]);
+
+  // Wheel zoom needs a non-passive listener to stop the page from scrolling
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = svg.getBoundingClientRect();
+      setViewBox(prev => {
+        const base = prev || fittedViewBox;
+        const factor = e.deltaY > 0 ? 1.2 : 1 / 1.2;
+        // Zoom around the pointer position
+        const px = base.x + ((e.clientX - rect.left) / rect.width) * base.width;
+        const py = base.y + ((e.clientY - rect.top) / rect.height) * base.height;
+        return {
+          x: px - (px - base.x) * factor,
+          y: py - (py - base.y) * factor,
+          width: base.width * factor,
+          height: base.height * factor,
+        };
+      });
+    };
+
+    svg.addEventListener('wheel', handleWheel, { passive: false });
+    return () => svg.removeEventListener('wheel', handleWheel);
+  }, [fittedViewBox]);
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    if ((e.target as Element).tagName === 'circle') return;
+    dragRef.current = { clientX: e.clientX, clientY: e.clientY, viewBox: currentViewBox };
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    const drag = dragRef.current;
+    const svg = svgRef.current;
+    if (!drag || !svg) return;
+    const rect = svg.getBoundingClientRect();
+    // preserveAspectRatio "meet" uses the larger of the two ratios
+    const unitsPerPixel = Math.max(drag.viewBox.width / rect.width, drag.viewBox.height / rect.height);
+    setViewBox({
+      ...drag.viewBox,
+      x: drag.viewBox.x - (e.clientX - drag.clientX) * unitsPerPixel,
+      y: drag.viewBox.y - (e.clientY - drag.clientY) * unitsPerPixel,
+    });
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const zoomBy = (factor: number) => {
+    const base = currentViewBox;
+    const cx = base.x + base.width / 2;
+    const cy = base.y + base.height / 2;
+    setViewBox({
+      x: cx - (base.width * factor) / 2,
+      y: cy - (base.height * factor) / 2,
+      width: base.width * factor,
+      height: base.height * factor,
+    });
+  };
+
+  // Graticule lines for the visible area, in degrees
+  const graticule = useMemo(() => {
+    const scale = Math.cos((referenceLatitude * Math.PI) / 180);
+    const span = Math.max(currentViewBox.width / scale, currentViewBox.height);
+    const step = GRID_STEPS.find(s => span / s <= 12) || 30;
+
+    const minLon = currentViewBox.x / scale;
+    const maxLon = (currentViewBox.x + currentViewBox.width) / scale;
+    const minLat = -(currentViewBox.y + currentViewBox.height);
+    const maxLat = -currentViewBox.y;
+
+    const longitudes: number[] = [];
+    for (let lon = Math.ceil(minLon / step) * step; lon <= maxLon; lon += step) longitudes.push(lon);
+    const latitudes: number[] = [];
+    for (let lat = Math.ceil(minLat / step) * step; lat <= maxLat; lat += step) latitudes.push(lat);
+
+    return { longitudes, latitudes, scale, step };
+  }, [currentViewBox, referenceLatitude]);
+
+  const selected = selectedKey ? points.find(p => p.key === selectedKey) || null : null;
+  const markerRadius = Math.min(currentViewBox.width, currentViewBox.height) * 0.012;
+  const labelSize = Math.min(currentViewBox.width, currentViewBox.height) * 0.025;
+  const decimals = graticule.step < 0.01 ? 3 : graticule.step < 1 ? 2 : 0;
+
+  return (
+    <div className="flex-1 flex flex-col md:flex-row min-h-0 bg-white dark:bg-gray-900">
+      <div className="md:w-80 lg:w-96 flex-shrink-0 flex flex-col min-h-0 h-64 md:h-auto border-b md:border-b-0 md:border-r border-gray-100 dark:border-gray-700">
+        <div className="p-3 border-b border-gray-100 dark:border-gray-700">
+          <select
+            value={scope}
+            onChange={(e) => setScope(e.target.value)}
+            className="w-full px-3 py-2 rounded-lg bg-gray-100 dark:bg-gray-800 text-sm text-gray-900 dark:text-gray-100 border border-transparent focus:ring-2 focus:ring-blue-500 focus:outline-none"
+          >
+            <option value="all">All contacts</option>
+            {locatedContacts.map(({ contactId, count }) => {
+              const contact = contactsById.get(contactId);
+              return (
+                <option key={contactId} value={contactId}>
+                  {contact ? getContactDisplayName(contact) : contactId} ({count})
+                </option>
+              );
+            })}
+          </select>
+          <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+            {points.length.toLocaleString()} located message{points.length === 1 ? '' : 's'}
+          </p>
+        </div>
+
+        <div className="flex-1 min-h-0">
+          {points.length > 0 && (
+            <AutoSizer>
+              {({ height, width }) => (
+                <List
+                  height={height}
+                  width={width}
+                  rowCount={points.length}
+                  rowHeight={56}
+                  overscanRowCount={10}
+                  rowRenderer={({ index, key, style }) => {
+                    const point = points[index];
+                    const contact = contactsById.get(point.contactId);
+                    const isSelected = point.key === selectedKey;
+                    return (
+                      <div
+                        key={key}
+                        style={style}
+                        onClick={() => setSelectedKey(point.key)}
+                        className={`px-3 flex items-center gap-2 cursor-pointer border-b border-gray-50 dark:border-gray-800 ${
+                          isSelected ? 'bg-blue-50 dark:bg-blue-900/20' : 'hover:bg-gray-50 dark:hover:bg-gray-800'
+                        }`}
+                      >
+                        <span
+                          className="w-2.5 h-2.5 rounded-full flex-shrink-0"
+                          style={{ backgroundColor: getContactHexColor(point.contactId) }}
+                        />
+                        <div className="min-w-0 flex-1">
+                          <p className="text-sm text-gray-900 dark:text-gray-100 truncate">
+                            {contact ? getContactDisplayName(contact) : point.contactId}
+                          </p>
+                          <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                            {formatDetailedMessageTime(point.message.timestamp, zoneFor(point.message.utcOffset))} · {point.message.location!.label || formatGeoPoint(point.message.location!)}
+                          </p>
+                        </div>
+                      </div>
+                    );
+                  }}
+                />
+              )}
+            </AutoSizer>
+          )}
+        </div>
+      </div>
+
+      <div className="flex-1 min-h-0 relative bg-sky-50 dark:bg-gray-800">
+        {points.length === 0 ? (
+          <div className="h-full flex items-center justify-center text-sm text-gray-500 dark:text-gray-400">
+            No messages with location data
+          </div>
+        ) : (
+          <>
+            <svg
+              ref={svgRef}
+              className="absolute inset-0 w-full h-full touch-none cursor-grab active:cursor-grabbing"
+              viewBox={`${currentViewBox.x} ${currentViewBox.y} ${currentViewBox.width} ${currentViewBox.height}`}
+              preserveAspectRatio="xMidYMid meet"
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={handlePointerUp}
+            >
+              <g className="text-gray-300 dark:text-gray-600" stroke="currentColor" strokeWidth={1} fill="none">
+                {graticule.longitudes.map(lon => (
+                  <line
+                    key={`lon-${lon}`}
+                    x1={lon * graticule.scale}
+                    x2={lon * graticule.scale}
+                    y1={currentViewBox.y}
+                    y2={currentViewBox.y + currentViewBox.height}
+                    vectorEffect="non-scaling-stroke"
+                  />
+                ))}
+                {graticule.latitudes.map(lat => (
+                  <line
+                    key={`lat-${lat}`}
+                    x1={currentViewBox.x}
+                    x2={currentViewBox.x + currentViewBox.width}
+                    y1={-lat}
+                    y2={-lat}
+                    vectorEffect="non-scaling-stroke"
+                  />
+                ))}
+              </g>
+              <g className="fill-gray-400 dark:fill-gray-500" fontSize={labelSize}>
+                {graticule.longitudes.map(lon => (
+                  <text key={`lon-label-${lon}`} x={lon * graticule.scale + labelSize * 0.3} y={currentViewBox.y + currentViewBox.height - labelSize * 0.4}>
+                    {lon.toFixed(decimals)}°
+                  </text>
+                ))}
+                {graticule.latitudes.map(lat => (
+                  <text key={`lat-label-${lat}`} x={currentViewBox.x + labelSize * 0.3} y={-lat - labelSize * 0.3}>
+                    {lat.toFixed(decimals)}°
+                  </text>
+                ))}
+              </g>
+              {points.map(point => (
+                <circle
+                  key={point.key}
+                  cx={point.x}
+                  cy={point.y}
+                  r={point.key === selectedKey ? markerRadius * 1.6 : markerRadius}
+                  fill={getContactHexColor(point.contactId)}
+                  fillOpacity={0.85}
+                  stroke="white"
+                  strokeWidth={point.key === selectedKey ? 3 : 1.5}
+                  vectorEffect="non-scaling-stroke"
+                  className="cursor-pointer"
+                  onClick={() => setSelectedKey(point.key)}
+                >
+                  <title>{formatGeoPoint(point.message.location!)}</title>
+                </circle>
+              ))}
+            </svg>
+
+            <div className="absolute top-3 right-3 flex flex-col gap-1">
+              {[
+                ['+', 1 / 1.5, 'Zoom in'],
+                ['−', 1.5, 'Zoom out'],
+              ].map(([label, factor, title]) => (
+                <button
+                  key={title as string}
+                  onClick={() => zoomBy(factor as number)}
+                  className="w-8 h-8 rounded-lg bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-200 shadow-sm hover:bg-gray-50 dark:hover:bg-gray-800"
+                  aria-label={title as string}
+                >
+                  {label}
+                </button>
+              ))}
+              <button
+                onClick={() => setViewBox(null)}
+                className="w-8 h-8 rounded-lg bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-200 shadow-sm hover:bg-gray-50 dark:hover:bg-gray-800 text-xs"
+                aria-label="Fit all points"
+                title="Fit all points"
+              >
+                ⤢
+              </button>
+            </div>
+
+            {selected && (
+              <div className="absolute bottom-3 left-3 right-3 md:right-auto md:w-96 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-xl shadow-lg p-3">
+                <div className="flex items-center justify-between gap-2">
+                  <p className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">
+                    {contactsById.get(selected.contactId)
+                      ? getContactDisplayName(contactsById.get(selected.contactId)!)
+                      : selected.contactId}
+                  </p>
+                  <span className="text-xs text-gray-500 dark:text-gray-400 flex-shrink-0">
+                    {formatDetailedMessageTime(selected.message.timestamp, zoneFor(selected.message.utcOffset))}
+                  </span>
+                </div>
+                {selected.message.text && (
+                  <p className="mt-1 text-sm text-gray-700 dark:text-gray-300 line-clamp-2">{selected.message.text}</p>
+                )}
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  {selected.message.location!.label ? `${selected.message.location!.label} · ` : ''}
+                  {formatGeoPoint(selected.message.location!)}
+                </p>
+                <button
+                  onClick={() => onContactSelect(selected.contactId, selected.message.id)}
+                  className="mt-2 text-xs font-medium text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300"
+                >
+                  Open in conversation →
+                </button>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,20 +1,45 @@
-import { useEffect, useMemo, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { List, CellMeasurer, CellMeasurerCache, AutoSizer } from "react-virtualized";
 import type { MeasuredCellParent } from "react-virtualized/dist/es/CellMeasurer";
 import "react-virtualized/styles.css";
-import type { Contact, Message } from "../types";
+import type { Attachment, CallInfo, Contact, Message, MessageAttribution, MessageChannel } from "../types";
 import {
   formatDetailedMessageTime,
+  getDayKey,
   getMessageYear,
   getContactDisplayName,
 } from "../utils/messageUtils";
+import { formatDateInZone, getZonedParts, type ZoneSpec } from "../utils/timeZoneUtils";
 import { getContactColor, getContactTextColor } from "../utils/contactColors";
+import { isImageAttachment } from "../utils/attachmentUtils";
+import { formatGeoPoint } from "../utils/locationUtils";
+import { useMedia } from "../hooks/useMedia";
+import { useDisplayTimeZone } from "../hooks/useDisplayTimeZone";
+import { findTextOccurrences } from "../utils/searchQuery";
+import { getTextDirection } from "../utils/thaanaUtils";
+import { describeNameSource } from "../utils/addressBook";
+import { describeCall, isMissedCall, summarizeCalls } from "../utils/callUtils";
+import { formatDuration } from "../utils/statsUtils";
+import { CHANNEL_LABELS, getChannelLabel, getMessageChannels } from "../utils/channelUtils";
+import {
+  describeAttribution,
+  getConfidenceLevel,
+  UNATTRIBUTED_CONTACT_ID,
+  UNATTRIBUTED_DESCRIPTION,
+} from "../utils/orphanAttribution";
+import HighlightedText from "./HighlightedText";
+import ThreadFindBar from "./ThreadFindBar";
+import ConversationExportDialog from "./ConversationExportDialog";
+import MonthGrid from "./MonthGrid";
 
 interface MessageThreadProps {
   contact: Contact | null;
   messages: Message[];
   scrollToMessageId?: number | null;
   onBack?: () => void;
+  // Tag each message with the export it came from (when several are merged)
+  showSources?: boolean;
+  onShowStats?: () => void;
 }
 
 export default function MessageThread({
@@ -22,11 +47,26 @@ export default function MessageThread({
   messages,
   scrollToMessageId,
   onBack,
+  showSources = false,
+  onShowStats,
 }: MessageThreadProps) {
   const listRef = useRef<List>(null);
   const cacheRef = useRef<CellMeasurerCache | null>(null);
   const [highlightMessageId, setHighlightMessageId] = useState<number | null>(null);
   const highlightTimeoutRef = useRef<number | null>(null);
+  const { fileCount: mediaFileCount } = useMedia();
+  const { zoneFor } = useDisplayTimeZone();
+  const [isFindOpen, setIsFindOpen] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [isCalendarOpen, setIsCalendarOpen] = useState(false);
+  const [calendarMonth, setCalendarMonth] = useState({ year: 0, month: 0 });
+  // First visible row, whose date the sticky header shows
+  const [topItemIndex, setTopItemIndex] = useState(0);
+  // One channel on its own, or all of them interleaved
+  const [channelView, setChannelView] = useState<MessageChannel | "all">("all");
+  const [findQuery, setFindQuery] = useState("");
+  const [activeFindIndex, setActiveFindIndex] = useState(0);
+  const findInputRef = useRef<HTMLInputElement>(null);
 
   if (!cacheRef.current) {
     cacheRef.current = new CellMeasurerCache({
@@ -36,33 +76,60 @@ export default function MessageThread({
     });
   }
 
-  // Prepare messages with year dividers
+  const channels = useMemo(() => getMessageChannels(messages), [messages]);
+  // Falls back to all when the conversation has nothing on the chosen channel
+  const activeChannel = channelView !== "all" && channels.includes(channelView) ? channelView : "all";
+  const visibleMessages = useMemo(
+    () => (activeChannel === "all" ? messages : messages.filter((message) => message.channel === activeChannel)),
+    [messages, activeChannel]
+  );
+  // Tab labels name the app when all of a channel's messages came from one
+  const channelTabs = useMemo(() => channels.map((channel) => {
+    const channelMessages = messages.filter((message) => message.channel === channel);
+    const apps = new Set(channelMessages.map((message) => message.app));
+    const app = apps.size === 1 ? channelMessages[0].app : undefined;
+    return { channel, label: app || CHANNEL_LABELS[channel], count: channelMessages.length };
+  }), [messages, channels]);
+
+  // Messages with a divider at every new year, month and day
   const itemsWithDividers = useMemo(() => {
-    const items: Array<{
-      type: "message" | "divider";
-      data: Message | number;
-      index: number;
-    }> = [];
-    const currentCalendarYear = new Date().getFullYear();
-
-    messages.forEach((message, index) => {
-      const currentYear = getMessageYear(message.timestamp);
-      const previousYear =
-        index > 0 ? getMessageYear(messages[index - 1].timestamp) : null;
-      const showYearDivider =
-        previousYear !== null && currentYear !== previousYear;
-      const isFirstMessage = index === 0;
-      const showFirstYearDivider =
-        isFirstMessage && currentYear !== currentCalendarYear;
-
-      if (showYearDivider || showFirstYearDivider) {
-        items.push({ type: "divider", data: currentYear, index: items.length });
+    const items: Item[] = [];
+    const currentCalendarYear = getMessageYear(new Date(), zoneFor());
+    let previous: { year: number; month: number; dayKey: string } | null = null;
+
+    visibleMessages.forEach((message) => {
+      const zone = zoneFor(message.utcOffset);
+      const { year, month } = getZonedParts(message.timestamp, zone);
+      const dayKey = getDayKey(message.timestamp, zone);
+      const common = { date: message.timestamp, zone, dayKey };
+
+      // The first year is only marked when it is not the current one
+      if (previous ? year !== previous.year : year !== currentCalendarYear) {
+        items.push({ type: "divider", kind: "year", index: items.length, ...common });
       }
-      items.push({ type: "message", data: message, index: items.length });
+      if (!previous || year !== previous.year || month !== previous.month) {
+        items.push({ type: "divider", kind: "month", index: items.length, ...common });
+      }
+      if (!previous || dayKey !== previous.dayKey) {
+        items.push({ type: "divider", kind: "day", index: items.length, ...common });
+      }
+      items.push({ type: "message", data: message, index: items.length, ...common });
+      previous = { year, month, dayKey };
     });
 
     return items;
-  }, [messages]);
+  }, [visibleMessages, zoneFor]);
+
+  const callSummary = useMemo(() => summarizeCalls(messages), [messages]);
+
+  // Messages per day, for the calendar navigator
+  const dayActivity = useMemo(() => {
+    const counts = new Map<string, number>();
+    itemsWithDividers.forEach((item) => {
+      if (item.type === "message") counts.set(item.dayKey, (counts.get(item.dayKey) || 0) + 1);
+    });
+    return counts;
+  }, [itemsWithDividers]);
 
   useEffect(() => {
     if (cacheRef.current) {
@@ -71,24 +138,105 @@ export default function MessageThread({
     if (listRef.current) {
       listRef.current.forceUpdateGrid();
     }
-  }, [itemsWithDividers]);
+    // Image previews change row heights when a media folder is loaded
+  }, [itemsWithDividers, mediaFileCount]);
+
+  // Rows above the target may not be measured yet, so scroll once, let them
+  // render, then correct the position
+  const scrollToItem = useCallback((targetIndex: number) => {
+    if (!listRef.current) return;
+    listRef.current.scrollToRow(targetIndex);
+    requestAnimationFrame(() => {
+      if (!listRef.current) return;
+      listRef.current.recomputeRowHeights(targetIndex);
+      listRef.current.scrollToRow(targetIndex);
+    });
+  }, []);
+
+  // Every occurrence of the find query, in thread order
+  const findMatches = useMemo(() => {
+    const matches: { messageId: number; itemIndex: number; rangeIndex: number }[] = [];
+    const rangesByMessage = new Map<number, [number, number][]>();
+    if (!isFindOpen || !findQuery) return { matches, rangesByMessage };
+
+    itemsWithDividers.forEach((item, itemIndex) => {
+      if (item.type !== "message") return;
+      const message = item.data;
+      // Call logs show a fixed label instead of their text
+      if (message.isCallLog || !message.text) return;
+      const ranges = findTextOccurrences(message.text, findQuery);
+      if (ranges.length === 0) return;
+      rangesByMessage.set(message.id, ranges);
+      ranges.forEach((_, rangeIndex) => {
+        matches.push({ messageId: message.id, itemIndex, rangeIndex });
+      });
+    });
+    return { matches, rangesByMessage };
+  }, [isFindOpen, findQuery, itemsWithDividers]);
+
+  const activeFindMatch = findMatches.matches[activeFindIndex] ?? null;
+
+  // A new query or conversation starts again from the first match
+  useEffect(() => {
+    setActiveFindIndex(0);
+  }, [findQuery, messages]);
+
+  useEffect(() => {
+    if (activeFindMatch) scrollToItem(activeFindMatch.itemIndex);
+  }, [activeFindMatch, scrollToItem]);
+
+  const stepFind = useCallback((direction: 1 | -1) => {
+    const count = findMatches.matches.length;
+    if (count === 0) return;
+    setActiveFindIndex(index => (index + direction + count) % count);
+  }, [findMatches]);
+
+  const openFind = useCallback(() => {
+    setIsFindOpen(true);
+    requestAnimationFrame(() => {
+      findInputRef.current?.focus();
+      findInputRef.current?.select();
+    });
+  }, []);
+
+  const closeFind = useCallback(() => {
+    setIsFindOpen(false);
+    setFindQuery("");
+  }, []);
+
+  // Ctrl/Cmd+F opens find; F3 and Ctrl/Cmd+G step through matches
+  useEffect(() => {
+    if (!contact) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const isModifier = e.ctrlKey || e.metaKey;
+      if (isModifier && e.key.toLowerCase() === "f") {
+        e.preventDefault();
+        openFind();
+      } else if (isFindOpen && (e.key === "F3" || (isModifier && e.key.toLowerCase() === "g"))) {
+        e.preventDefault();
+        stepFind(e.shiftKey ? -1 : 1);
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [contact, isFindOpen, openFind, stepFind]);
 
   useEffect(() => {
     if (!scrollToMessageId || !listRef.current) return;
 
     const targetIndex = itemsWithDividers.findIndex(
-      (item) =>
-        item.type === "message" &&
-        (item.data as Message).id === scrollToMessageId
+      (item) => item.type === "message" && item.data.id === scrollToMessageId
     );
 
+    // The target may be on a channel that is hidden right now
+    if (targetIndex === -1 && activeChannel !== "all" &&
+      messages.some((message) => message.id === scrollToMessageId)) {
+      setChannelView("all");
+      return;
+    }
+
     if (targetIndex !== -1) {
-      listRef.current.scrollToRow(targetIndex);
-      requestAnimationFrame(() => {
-        if (!listRef.current) return;
-        listRef.current.recomputeRowHeights(targetIndex);
-        listRef.current.scrollToRow(targetIndex);
-      });
+      scrollToItem(targetIndex);
       setHighlightMessageId(scrollToMessageId);
       if (highlightTimeoutRef.current) {
         window.clearTimeout(highlightTimeoutRef.current);
@@ -97,7 +245,40 @@ export default function MessageThread({
         setHighlightMessageId(null);
       }, 2000);
     }
-  }, [scrollToMessageId, itemsWithDividers]);
+  }, [scrollToMessageId, itemsWithDividers, scrollToItem, activeChannel, messages]);
+
+  const topItem = itemsWithDividers[topItemIndex] ?? itemsWithDividers[0];
+
+  // The navigator belongs to the conversation it was opened on
+  useEffect(() => {
+    setIsCalendarOpen(false);
+  }, [messages]);
+
+  const toggleCalendar = () => {
+    if (!isCalendarOpen && topItem) {
+      const { year, month } = getZonedParts(topItem.date, topItem.zone);
+      setCalendarMonth({ year, month });
+    }
+    setIsCalendarOpen((open) => !open);
+  };
+
+  // The day goes to the top of the list, dividers included
+  const scrollToDay = (dayKey: string) => {
+    const targetIndex = itemsWithDividers.findIndex((item) => item.dayKey >= dayKey);
+    setIsCalendarOpen(false);
+    if (targetIndex === -1 || !listRef.current) return;
+
+    const scrollToStart = () => {
+      const list = listRef.current;
+      if (!list) return;
+      list.scrollToPosition(list.getOffsetForRow({ alignment: "start", index: targetIndex }));
+    };
+    scrollToStart();
+    requestAnimationFrame(() => {
+      listRef.current?.recomputeRowHeights(targetIndex);
+      scrollToStart();
+    });
+  };
 
   useEffect(() => {
     return () => {
@@ -139,6 +320,8 @@ export default function MessageThread({
   const contactId = contact.normalizedPhone || contact.phone;
   const avatarColor = getContactColor(contactId);
   const textColor = getContactTextColor();
+  // Which file the name came from, and any names it overrode
+  const nameSource = describeNameSource(contact);
 
   return (
     <div className="flex-1 flex flex-col w-full bg-white dark:bg-gray-900">
@@ -169,7 +352,9 @@ export default function MessageThread({
             <div
               className={`w-10 h-10 bg-gradient-to-br ${avatarColor} rounded-full flex items-center justify-center shadow-inner`}
             >
-              {contact.name && contact.name !== "Unknown" ? (
+              {contact.photo ? (
+                <img src={contact.photo} alt="" className="w-full h-full rounded-full object-cover" />
+              ) : contact.name && contact.name !== "Unknown" ? (
                 <span className={`text-sm font-medium ${textColor}`}>
                   {displayName.charAt(0).toUpperCase()}
                 </span>
@@ -187,24 +372,136 @@ export default function MessageThread({
                 </svg>
               )}
             </div>
-            <div className="ml-3">
+            <div className="ml-3 min-w-0">
               <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 tracking-tight">
                 {displayName}
               </h3>
-              <p className="text-sm text-gray-500 dark:text-gray-400">
-                {contact.phone}
+              <p className="text-sm text-gray-500 dark:text-gray-400 truncate">
+                {contactId === UNATTRIBUTED_CONTACT_ID ? UNATTRIBUTED_DESCRIPTION : contact.phone}
+                {nameSource && (
+                  <span className="text-xs" title={nameSource}>
+                    {" · "}
+                    {nameSource}
+                  </span>
+                )}
               </p>
             </div>
           </div>
         </div>
 
         <div className="flex items-center gap-2">
-          <span className="text-sm text-gray-500 dark:text-gray-400">
-            {messages.length} messages
-          </span>
+          {callSummary.calls > 0 && (
+            <span
+              className="hidden lg:inline text-xs text-gray-500 dark:text-gray-400"
+              title="Calls in this conversation"
+            >
+              {callSummary.calls} call{callSummary.calls === 1 ? "" : "s"}
+              {callSummary.talkSeconds > 0 && ` · ${formatDuration(callSummary.talkSeconds * 1000)} talk time`}
+              {callSummary.missed > 0 && (
+                <span className="text-red-600 dark:text-red-400"> · {callSummary.missed} missed</span>
+              )}
+            </span>
+          )}
+          {onShowStats ? (
+            <button
+              onClick={onShowStats}
+              className="text-sm text-gray-500 dark:text-gray-400 hover:text-blue-600 dark:hover:text-blue-400 hover:underline"
+              title="Show statistics for this conversation"
+            >
+              {messages.length} messages
+            </button>
+          ) : (
+            <span className="text-sm text-gray-500 dark:text-gray-400">
+              {messages.length} messages
+            </span>
+          )}
+          <button
+            onClick={toggleCalendar}
+            disabled={messages.length === 0}
+            className={`p-2 rounded-full transition-colors disabled:opacity-40 ${
+              isCalendarOpen
+                ? "bg-blue-100 dark:bg-blue-900/30 text-blue-600 dark:text-blue-300"
+                : "text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800"
+            }`}
+            aria-label="Jump to date"
+            title="Jump to date"
+          >
+            <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+            </svg>
+          </button>
+          <button
+            onClick={() => setIsExportOpen(true)}
+            className="p-2 rounded-full text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+            aria-label="Export conversation"
+            title="Export conversation as HTML, PDF or CSV"
+          >
+            <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+            </svg>
+          </button>
+          <button
+            onClick={() => (isFindOpen ? closeFind() : openFind())}
+            className={`p-2 rounded-full transition-colors ${
+              isFindOpen
+                ? "bg-blue-100 dark:bg-blue-900/30 text-blue-600 dark:text-blue-300"
+                : "text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800"
+            }`}
+            aria-label="Find in conversation"
+            title="Find in conversation (Ctrl+F)"
+          >
+            <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+            </svg>
+          </button>
         </div>
       </div>
 
+      {isExportOpen && (
+        <ConversationExportDialog
+          contact={contact}
+          messages={messages}
+          onClose={() => setIsExportOpen(false)}
+        />
+      )}
+
+      {isFindOpen && (
+        <ThreadFindBar
+          query={findQuery}
+          onQueryChange={setFindQuery}
+          matchCount={findMatches.matches.length}
+          activeIndex={activeFindIndex}
+          onNext={() => stepFind(1)}
+          onPrevious={() => stepFind(-1)}
+          onClose={closeFind}
+          inputRef={findInputRef}
+        />
+      )}
+
+      {channelTabs.length > 1 && (
+        <div
+          className="flex items-center gap-1 px-4 py-2 border-b border-gray-100 dark:border-gray-700"
+          role="group"
+          aria-label="Channels"
+        >
+          {[{ channel: "all" as const, label: "All", count: messages.length }, ...channelTabs].map((tab) => (
+            <button
+              key={tab.channel}
+              onClick={() => setChannelView(tab.channel)}
+              aria-pressed={activeChannel === tab.channel}
+              className={`px-2.5 py-1 rounded-full text-xs font-medium transition-colors ${
+                activeChannel === tab.channel
+                  ? "bg-blue-600 text-white"
+                  : "bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700"
+              }`}
+              title={tab.channel === "all" ? "Every channel interleaved in time order" : `Only ${tab.label}`}
+            >
+              {tab.label} ({tab.count.toLocaleString()})
+            </button>
+          ))}
+        </div>
+      )}
+
       <div className="px-4 py-2 bg-red-50 dark:bg-red-900/20 border-b border-red-200 dark:border-red-800">
         <p className="text-xs text-red-800 dark:text-red-200 text-center">
           All responses are estimated and can be wrong
@@ -218,6 +515,34 @@ export default function MessageThread({
           </div>
         ) : (
           <div style={{ position: 'absolute', top: 0, left: 0, right: 0, bottom: 0 }}>
+            {topItem && (
+              <div className="absolute top-2 inset-x-0 z-10 flex justify-center pointer-events-none">
+                <button
+                  onClick={toggleCalendar}
+                  className="pointer-events-auto px-3 py-0.5 rounded-full bg-white/90 dark:bg-gray-700/90 text-[11px] font-medium text-gray-600 dark:text-gray-200 shadow hover:bg-white dark:hover:bg-gray-700"
+                  title="Jump to date"
+                >
+                  {formatDateInZone(topItem.date, topItem.zone, {
+                    weekday: "short",
+                    day: "numeric",
+                    month: "short",
+                    year: "numeric",
+                  })}
+                </button>
+              </div>
+            )}
+            {isCalendarOpen && (
+              <div className="absolute top-10 right-4 z-20 w-72 p-3 bg-white dark:bg-gray-900 rounded-xl shadow-xl border border-gray-200 dark:border-gray-700">
+                <MonthGrid
+                  year={calendarMonth.year}
+                  month={calendarMonth.month}
+                  activity={dayActivity}
+                  selectedDayKey={topItem?.dayKey}
+                  onDaySelect={scrollToDay}
+                  onMonthChange={(year, month) => setCalendarMonth({ year, month })}
+                />
+              </div>
+            )}
             <AutoSizer>
               {({ height, width }) =>
                 cacheRef.current && (
@@ -227,6 +552,7 @@ export default function MessageThread({
                     width={width}
                     rowCount={itemsWithDividers.length}
                     scrollToAlignment="center"
+                    onRowsRendered={({ startIndex }) => setTopItemIndex(startIndex)}
                     deferredMeasurementCache={cacheRef.current}
                     rowHeight={cacheRef.current.rowHeight}
                     rowRenderer={({ index, key, parent, style }) => (
@@ -238,6 +564,10 @@ export default function MessageThread({
                         cache={cacheRef.current!}
                         parent={parent}
                         highlightMessageId={highlightMessageId}
+                        showSources={showSources}
+                        showChannels={activeChannel === "all" && channels.length > 1}
+                        findRangesByMessage={findMatches.rangesByMessage}
+                        activeFindMatch={activeFindMatch}
                       />
                     )}
                     overscanRowCount={10}
@@ -253,11 +583,14 @@ export default function MessageThread({
 }
 
 // Row component for virtual list
+type DividerKind = "year" | "month" | "day";
 type Item = {
-  type: "message" | "divider";
-  data: Message | number;
   index: number;
-};
+  // Time of the message the row belongs to, or that follows the divider
+  date: Date;
+  zone: ZoneSpec;
+  dayKey: string;
+} & ({ type: "message"; data: Message } | { type: "divider"; kind: DividerKind });
 const Row = ({
   index,
   items,
@@ -265,6 +598,10 @@ const Row = ({
   cache,
   parent,
   highlightMessageId,
+  showSources,
+  showChannels,
+  findRangesByMessage,
+  activeFindMatch,
 }: {
   index: number;
   items: Item[];
@@ -272,6 +609,10 @@ const Row = ({
   cache: CellMeasurerCache;
   parent: MeasuredCellParent;
   highlightMessageId: number | null;
+  showSources: boolean;
+  showChannels: boolean;
+  findRangesByMessage: Map<number, [number, number][]>;
+  activeFindMatch: { messageId: number; rangeIndex: number } | null;
 }) => {
   const item = items[index];
 
@@ -284,14 +625,20 @@ const Row = ({
         parent={parent}
         rowIndex={index}
       >
-        <div style={style} className="py-4">
-          <YearDivider year={item.data as number} />
+        <div style={style} className={item.kind === "day" ? "py-2" : "py-4"}>
+          {item.kind === "year" ? (
+            <YearDivider year={getZonedParts(item.date, item.zone).year} />
+          ) : item.kind === "month" ? (
+            <MonthDivider date={item.date} zone={item.zone} />
+          ) : (
+            <DayDivider date={item.date} zone={item.zone} />
+          )}
         </div>
       </CellMeasurer>
     );
   }
 
-  const message = item.data as Message;
+  const message = item.data;
   const isHighlighted = highlightMessageId != null && message.id === highlightMessageId;
   return (
     <CellMeasurer
@@ -303,39 +650,71 @@ const Row = ({
     >
       <div style={style}>
         <div style={{ paddingTop: 8, paddingBottom: 8 }}>
-          <MessageBubble message={message} isHighlighted={isHighlighted} />
+          <MessageBubble
+            message={message}
+            isHighlighted={isHighlighted}
+            showSources={showSources}
+            showChannel={showChannels || !!message.app || message.channel === "im"}
+            findRanges={findRangesByMessage.get(message.id)}
+            activeFindRange={
+              activeFindMatch?.messageId === message.id ? activeFindMatch.rangeIndex : undefined
+            }
+          />
         </div>
       </div>
     </CellMeasurer>
   );
 };
 
-function MessageBubble({ message, isHighlighted = false }: { message: Message; isHighlighted?: boolean }) {
+function MessageBubble({
+  message,
+  isHighlighted = false,
+  showSources = false,
+  showChannel = false,
+  findRanges,
+  activeFindRange,
+}: {
+  message: Message;
+  isHighlighted?: boolean;
+  showSources?: boolean;
+  // Tag the message with its app or SMS, for threads that mix channels
+  showChannel?: boolean;
+  // Occurrences of the thread find query in message.text
+  findRanges?: [number, number][];
+  activeFindRange?: number;
+}) {
   const isFromMe = message.isFromMe;
+  const { zoneFor } = useDisplayTimeZone();
+  const zone = zoneFor(message.utcOffset);
 
   // Render call log differently
   if (message.isCallLog) {
+    const call = message.call;
+    const isMissed = isMissedCall(call);
     return (
       <div className="flex px-4 justify-center">
-        <div className={`px-3 py-1.5 rounded-full bg-gray-200 dark:bg-gray-700 flex items-center gap-2 ${isHighlighted ? "ring-2 ring-amber-400" : ""}`}>
-          <svg
-            className="w-3.5 h-3.5 text-gray-600 dark:text-gray-400"
-            fill="none"
-            stroke="currentColor"
-            viewBox="0 0 24 24"
+        <div className={`px-3 py-1.5 rounded-full flex items-center gap-2 ${
+          message.isDeleted
+            ? "bg-gray-100 dark:bg-gray-800 border border-dashed border-red-300 dark:border-red-700 opacity-70"
+            : isMissed
+              ? "bg-red-50 dark:bg-red-900/20"
+              : "bg-gray-200 dark:bg-gray-700"
+        } ${isHighlighted ? "ring-2 ring-amber-400" : ""}`}>
+          <CallIcon call={call} />
+          <span
+            className={`text-xs ${
+              isMissed ? "text-red-700 dark:text-red-300" : "text-gray-600 dark:text-gray-400"
+            } ${message.isDeleted ? "line-through" : ""}`}
+            title={message.text || undefined}
           >
-            <path
-              strokeLinecap="round"
-              strokeLinejoin="round"
-              strokeWidth={2}
-              d="M3 5a2 2 0 012-2h3.28a1 1 0 01.948.684l1.498 4.493a1 1 0 01-.502 1.21l-2.257 1.13a11.042 11.042 0 005.516 5.516l1.13-2.257a1 1 0 011.21-.502l4.493 1.498a1 1 0 01.684.949V19a2 2 0 01-2 2h-1C9.716 21 3 14.284 3 6V5z"
-            />
-          </svg>
-          <span className="text-xs text-gray-600 dark:text-gray-400">
-            Phone call
+            {call ? describeCall(call) : "Phone call"}
           </span>
+          {message.isDeleted && <DeletedLabel />}
+          {message.attribution && <AttributionMarker attribution={message.attribution} />}
+          {showChannel && message.app && <ChannelBadge message={message} />}
+          {showSources && <SourceLabel sources={message.sources} />}
           <span className="text-xs text-gray-500 dark:text-gray-500">
-            {formatDetailedMessageTime(message.timestamp)}
+            {formatDetailedMessageTime(message.timestamp, zone)}
           </span>
         </div>
       </div>
@@ -346,21 +725,66 @@ function MessageBubble({ message, isHighlighted = false }: { message: Message; i
     <div className={`flex px-4 ${isFromMe ? "justify-end" : "justify-start"}`}>
       <div
         className={`max-w-xs md:max-w-md lg:max-w-lg xl:max-w-xl px-4 py-2 rounded-2xl shadow-sm transition-colors duration-300 ${
-          isFromMe
-            ? "bg-blue-500 text-white rounded-br-sm"
-            : "bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 border border-gray-200 dark:border-gray-600 rounded-bl-sm"
+          message.isDeleted
+            ? isFromMe
+              ? "bg-blue-500/50 text-white border border-dashed border-red-300 rounded-br-sm"
+              : "bg-white/60 dark:bg-gray-700/50 text-gray-600 dark:text-gray-300 border border-dashed border-red-300 dark:border-red-700 rounded-bl-sm"
+            : isFromMe
+              ? "bg-blue-500 text-white rounded-br-sm"
+              : "bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 border border-gray-200 dark:border-gray-600 rounded-bl-sm"
         } ${isHighlighted ? "ring-2 ring-amber-400" : ""}`}
       >
-        <p className="text-sm leading-relaxed whitespace-pre-wrap">
-          {message.text}
-        </p>
+        {message.text && (
+          // Dhivehi reads right to left; without dir its numbers and Latin
+          // words end up in the wrong order
+          <p dir={getTextDirection(message.text)} className={`text-sm leading-relaxed whitespace-pre-wrap ${
+            message.isDeleted ? "line-through decoration-red-400/70" : ""
+          }`}>
+            {findRanges ? (
+              <HighlightedText
+                text={message.text}
+                highlights={findRanges}
+                activeIndex={activeFindRange}
+                compact
+              />
+            ) : (
+              message.text
+            )}
+          </p>
+        )}
+        {message.attachments && message.attachments.length > 0 && (
+          <AttachmentList attachments={message.attachments} isFromMe={isFromMe} />
+        )}
         <div className={`flex items-center justify-end mt-2 gap-2`}>
+          {message.location && (
+            <span
+              className={`inline-flex items-center gap-0.5 mr-auto text-xs ${
+                isFromMe ? "text-blue-100" : "text-gray-500 dark:text-gray-400"
+              }`}
+              title={`${message.location.label ? `${message.location.label} – ` : ""}${formatGeoPoint(message.location)}`}
+            >
+              <svg className="w-3.5 h-3.5" fill="currentColor" viewBox="0 0 20 20">
+                <path
+                  fillRule="evenodd"
+                  d="M5.05 4.05a7 7 0 119.9 9.9L10 18.9l-4.95-4.95a7 7 0 010-9.9zM10 11a2 2 0 100-4 2 2 0 000 4z"
+                  clipRule="evenodd"
+                />
+              </svg>
+              <span className="max-w-[10rem] truncate">
+                {message.location.label || formatGeoPoint(message.location)}
+              </span>
+            </span>
+          )}
+          {message.isDeleted && <DeletedLabel />}
+          {message.attribution && <AttributionMarker attribution={message.attribution} isFromMe={isFromMe} />}
+          {showChannel && <ChannelBadge message={message} isFromMe={isFromMe} />}
+          {showSources && <SourceLabel sources={message.sources} isFromMe={isFromMe} />}
           <span
             className={`text-xs ${
               isFromMe ? "text-blue-100" : "text-gray-500 dark:text-gray-400"
             }`}
           >
-            {formatDetailedMessageTime(message.timestamp)}
+            {formatDetailedMessageTime(message.timestamp, zone)}
           </span>
           <MessageStatusIndicator message={message} />
         </div>
@@ -369,6 +793,83 @@ function MessageBubble({ message, isHighlighted = false }: { message: Message; i
   );
 }
 
+function AttachmentList({
+  attachments,
+  isFromMe,
+}: {
+  attachments: Attachment[];
+  isFromMe: boolean;
+}) {
+  const { resolveMedia } = useMedia();
+
+  return (
+    <div className="mt-2 flex flex-col gap-1.5">
+      {attachments.map((attachment, index) => {
+        const url = resolveMedia(attachment.path);
+
+        if (url && isImageAttachment(attachment)) {
+          // Fixed height keeps the virtualized row measurement stable while the image loads
+          return (
+            <a
+              key={`${attachment.path}-${index}`}
+              href={url}
+              target="_blank"
+              rel="noreferrer"
+              title={attachment.path}
+              className="block"
+            >
+              <img
+                src={url}
+                alt={attachment.fileName}
+                className="h-40 max-w-full rounded-lg object-cover bg-gray-100 dark:bg-gray-800"
+              />
+            </a>
+          );
+        }
+
+        const chipClasses = `inline-flex items-center gap-2 max-w-full px-2.5 py-1.5 rounded-lg text-xs ${
+          isFromMe
+            ? "bg-blue-600/60 text-blue-50"
+            : "bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-200"
+        }`;
+        const chipContent = (
+          <>
+            <svg className="w-3.5 h-3.5 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M15.172 7l-6.586 6.586a2 2 0 102.828 2.828l6.414-6.586a4 4 0 00-5.656-5.656l-6.415 6.585a6 6 0 108.486 8.486L20.5 13"
+              />
+            </svg>
+            <span className="truncate font-medium">{attachment.fileName}</span>
+            <span className={`flex-shrink-0 ${isFromMe ? "text-blue-200" : "text-gray-400 dark:text-gray-500"}`}>
+              {attachment.mimeType}
+            </span>
+          </>
+        );
+
+        return url ? (
+          <a
+            key={`${attachment.path}-${index}`}
+            href={url}
+            target="_blank"
+            rel="noreferrer"
+            title={attachment.path}
+            className={`${chipClasses} hover:underline`}
+          >
+            {chipContent}
+          </a>
+        ) : (
+          <span key={`${attachment.path}-${index}`} title={attachment.path} className={chipClasses}>
+            {chipContent}
+          </span>
+        );
+      })}
+    </div>
+  );
+}
+
 function MessageStatusIndicator({ message }: { message: Message }) {
   if (!message.isFromMe) {
     const isRead = message.status === "read" || message.isRead;
@@ -519,6 +1020,116 @@ function MessageStatusIndicator({ message }: { message: Message }) {
   return null;
 }
 
+// Handset with an arrow for the direction; missed calls in red
+function CallIcon({ call }: { call?: CallInfo }) {
+  const isMissed = isMissedCall(call);
+  return (
+    <svg
+      className={`w-3.5 h-3.5 ${isMissed ? "text-red-500 dark:text-red-400" : "text-gray-600 dark:text-gray-400"}`}
+      fill="none"
+      stroke="currentColor"
+      viewBox="0 0 24 24"
+    >
+      <title>{call ? `${call.direction === "outgoing" ? "Outgoing" : "Incoming"}, ${call.status}` : "Call"}</title>
+      <path
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        strokeWidth={2}
+        d={
+          !call
+            ? "M3 5a2 2 0 012-2h3.28a1 1 0 01.948.684l1.498 4.493a1 1 0 01-.502 1.21l-2.257 1.13a11.042 11.042 0 005.516 5.516l1.13-2.257a1 1 0 011.21-.502l4.493 1.498a1 1 0 01.684.949V19a2 2 0 01-2 2h-1C9.716 21 3 14.284 3 6V5z"
+            : isMissed
+              ? "M16 8l2-2m0 0l2-2m-2 2l-2-2m2 2l2 2M5 3a2 2 0 00-2 2v1c0 8.284 6.716 15 15 15h1a2 2 0 002-2v-3.28a1 1 0 00-.684-.948l-4.493-1.498a1 1 0 00-1.21.502l-1.13 2.257a11.042 11.042 0 01-5.516-5.517l2.257-1.128a1 1 0 00.502-1.21L9.228 3.683A1 1 0 008.279 3H5z"
+              : call.direction === "outgoing"
+                ? "M16 3h5m0 0v5m0-5l-6 6M5 3a2 2 0 00-2 2v1c0 8.284 6.716 15 15 15h1a2 2 0 002-2v-3.28a1 1 0 00-.684-.948l-4.493-1.498a1 1 0 00-1.21.502l-1.13 2.257a11.042 11.042 0 01-5.516-5.517l2.257-1.128a1 1 0 00.502-1.21L9.228 3.683A1 1 0 008.279 3H5z"
+                : "M21 3l-6 6m0 0V4m0 5h5M5 3a2 2 0 00-2 2v1c0 8.284 6.716 15 15 15h1a2 2 0 002-2v-3.28a1 1 0 00-.684-.948l-4.493-1.498a1 1 0 00-1.21.502l-1.13 2.257a11.042 11.042 0 01-5.516-5.517l2.257-1.128a1 1 0 00.502-1.21L9.228 3.683A1 1 0 008.279 3H5z"
+        }
+      />
+    </svg>
+  );
+}
+
+function DeletedLabel() {
+  return (
+    <span
+      className="inline-flex items-center gap-0.5 text-xs font-medium text-red-500 dark:text-red-400"
+      title="Recovered deleted message"
+    >
+      <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          strokeWidth={2}
+          d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
+        />
+      </svg>
+      Deleted
+    </span>
+  );
+}
+
+// Which of the merged exports the message was found in
+function SourceLabel({ sources, isFromMe = false }: { sources: string[]; isFromMe?: boolean }) {
+  return (
+    <span
+      className={`max-w-[8rem] truncate text-[10px] px-1.5 py-0.5 rounded ${
+        isFromMe
+          ? "bg-blue-400/40 text-blue-50"
+          : "bg-gray-100 dark:bg-gray-600 text-gray-500 dark:text-gray-300"
+      }`}
+      title={`Found in: ${sources.join(", ")}`}
+    >
+      {sources.length > 1 ? `${sources[0]} +${sources.length - 1}` : sources[0]}
+    </span>
+  );
+}
+
+// The record had no number; its conversation was inferred with this confidence
+function AttributionMarker({ attribution, isFromMe = false }: { attribution: MessageAttribution; isFromMe?: boolean }) {
+  const level = getConfidenceLevel(attribution.confidence);
+  return (
+    <span
+      className={`inline-flex items-center gap-1 text-[10px] font-medium px-1.5 py-0.5 rounded border border-dashed ${
+        isFromMe
+          ? "border-blue-200 text-blue-50"
+          : level === "high"
+            ? "border-green-400 text-green-700 dark:text-green-300"
+            : level === "medium"
+              ? "border-amber-400 text-amber-700 dark:text-amber-300"
+              : "border-red-400 text-red-700 dark:text-red-300"
+      }`}
+      title={describeAttribution(attribution)}
+    >
+      <span
+        className={`w-1.5 h-1.5 rounded-full ${
+          level === "high" ? "bg-green-500" : level === "medium" ? "bg-amber-500" : "bg-red-500"
+        }`}
+      />
+      {attribution.suggestedContactId ? "Unplaced" : "Inferred"} {Math.round(attribution.confidence * 100)}%
+    </span>
+  );
+}
+
+// App the message was sent with, or SMS
+function ChannelBadge({ message, isFromMe = false }: { message: Message; isFromMe?: boolean }) {
+  return (
+    <span
+      className={`text-[10px] font-medium uppercase tracking-wide px-1.5 py-0.5 rounded ${
+        message.channel === "sms"
+          ? isFromMe
+            ? "bg-blue-400/40 text-blue-50"
+            : "bg-gray-100 dark:bg-gray-600 text-gray-500 dark:text-gray-300"
+          : isFromMe
+            ? "bg-emerald-400/50 text-white"
+            : "bg-emerald-100 dark:bg-emerald-900/40 text-emerald-700 dark:text-emerald-300"
+      }`}
+      title={message.channel === "im" ? "Instant message" : message.channel === "call" ? "App call" : "SMS"}
+    >
+      {getChannelLabel(message)}
+    </span>
+  );
+}
+
 function YearDivider({ year }: { year: number }) {
   return (
     <div className="flex items-center my-6">
@@ -530,3 +1141,21 @@ function YearDivider({ year }: { year: number }) {
     </div>
   );
 }
+
+function MonthDivider({ date, zone }: { date: Date; zone: ZoneSpec }) {
+  return (
+    <h3 className="px-4 text-sm font-semibold text-gray-700 dark:text-gray-200">
+      {formatDateInZone(date, zone, { month: "long", year: "numeric" })}
+    </h3>
+  );
+}
+
+function DayDivider({ date, zone }: { date: Date; zone: ZoneSpec }) {
+  return (
+    <div className="flex justify-center">
+      <span className="px-3 py-0.5 rounded-full bg-white/80 dark:bg-gray-700/80 text-[11px] font-medium text-gray-500 dark:text-gray-300 shadow-sm">
+        {formatDateInZone(date, zone, { weekday: "long", day: "numeric", month: "long" })}
+      </span>
+    </div>
+  );
+}
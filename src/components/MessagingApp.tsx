@@ -1,45 +1,78 @@
 import { useState, useMemo } from 'react';
-import type { UnifiedRecord, Message } from '../types';
-import { processMessagesData } from '../utils/messageUtils';
+import type { AddressBookEntry, Message, ProcessedData, SearchIndexContact } from '../types';
 import ContactList from './ContactList';
 import MessageThread from './MessageThread';
+import DataQualityPanel from './DataQualityPanel';
+import ContactManagerPanel from './ContactManagerPanel';
+import StatsPanel from './StatsPanel';
+import CalendarView from './CalendarView';
+import MapView from './MapView';
+import TimelineView from './TimelineView';
+import { useContactOverrides } from '../hooks/useContactOverrides';
+import { applyAddressBook } from '../utils/addressBook';
+
+type AppView = 'messages' | 'timeline' | 'calendar' | 'map';
 
 interface MessagingAppProps {
-  smsData: UnifiedRecord[];
+  data: ProcessedData;
+  // Uploaded contacts, matched to conversations by normalised number
+  addressBook: AddressBookEntry[];
+  phoneRegion: string;
   onMobileChatActiveChange?: (active: boolean) => void;
 }
 
-export default function MessagingApp({ smsData, onMobileChatActiveChange }: MessagingAppProps) {
+export default function MessagingApp({ data, addressBook, phoneRegion, onMobileChatActiveChange }: MessagingAppProps) {
   const [selectedContactId, setSelectedContactId] = useState<string | null>(null);
   const [showMobileContactList, setShowMobileContactList] = useState(true);
   const [scrollToMessageId, setScrollToMessageId] = useState<number | null>(null);
+  const [showQualityPanel, setShowQualityPanel] = useState(false);
+  const [showContactManager, setShowContactManager] = useState(false);
+  // undefined while closed, null for the whole dataset
+  const [statsContactId, setStatsContactId] = useState<string | null | undefined>(undefined);
+  const [view, setView] = useState<AppView>('messages');
+  const {
+    data: effectiveData,
+    overrides,
+    mergeContacts,
+    unmergeContact,
+    splitNumber,
+    rejoinNumber,
+    resetOverrides,
+  } = useContactOverrides(data);
 
-  const { contacts, messagesByContact, searchableData } = useMemo(() => {
-    return processMessagesData(smsData);
-  }, [smsData]);
-
-  const searchIndex = useMemo(() => {
-    const index = new Map<string, string>();
-    if (!contacts.length) return index;
+  // Conversations as imported, with the user's merges and splits applied,
+  // then named from the address book
+  const { messagesByContact, calendarEvents, qualityReport } = effectiveData;
+  const contacts = useMemo(
+    () => applyAddressBook(effectiveData.contacts, addressBook, phoneRegion),
+    [effectiveData.contacts, addressBook, phoneRegion]
+  );
 
-    contacts.forEach(contact => {
+  // One entry per message so the search worker can report exact matches
+  const searchIndex = useMemo((): SearchIndexContact[] => {
+    return contacts.map(contact => {
       const contactId = contact.normalizedPhone || contact.phone;
       const messages = messagesByContact.get(contactId) || [];
-      const searchTerms = searchableData.get(contactId) || [];
-
-      const aggregated = [
-        contact.name || '',
-        contact.phone || '',
-        contact.normalizedPhone || '',
-        contact.lastMessage || '',
-        ...messages.map(m => m.text || ''),
-        ...searchTerms
-      ].join('\n');
-      index.set(contactId, aggregated.toLowerCase());
+      return {
+        contactId,
+        name: contact.name || '',
+        phone: contact.phone || '',
+        messages: messages.map(message => ({
+          id: message.id,
+          text: message.text || '',
+          attachmentNames: (message.attachments || []).map(attachment => attachment.fileName),
+          timestamp: message.timestamp.getTime(),
+          utcOffset: message.utcOffset,
+          isFromMe: message.isFromMe,
+          isCallLog: !!message.isCallLog,
+          channel: message.channel,
+          isDeleted: !!message.isDeleted,
+          hasAttachments: !!message.attachments?.length,
+          hasLocation: !!message.location,
+        })),
+      };
     });
-
-    return index;
-  }, [contacts, messagesByContact, searchableData]);
+  }, [contacts, messagesByContact]);
 
   const selectedContact = selectedContactId
     ? contacts.find(c => (c.normalizedPhone || c.phone) === selectedContactId) || null
@@ -50,6 +83,7 @@ export default function MessagingApp({ smsData, onMobileChatActiveChange }: Mess
     : [];
 
   const handleContactSelect = (contactId: string, targetMessageId?: number) => {
+    setView('messages');
     setSelectedContactId(contactId);
     setShowMobileContactList(false);
     if (onMobileChatActiveChange) onMobileChatActiveChange(true);
@@ -66,13 +100,26 @@ export default function MessagingApp({ smsData, onMobileChatActiveChange }: Mess
     }
   };
 
+  const handleIssueSelect = (contactId: string, targetMessageId?: number) => {
+    setShowQualityPanel(false);
+    handleContactSelect(contactId, targetMessageId);
+  };
+
+  const handleMerge = (contactIds: string[], targetId: string) => {
+    mergeContacts(contactIds, targetId);
+    // Keep the open conversation open under its new id
+    if (selectedContactId && contactIds.includes(selectedContactId)) {
+      setSelectedContactId(targetId);
+    }
+  };
+
   const handleBackToContacts = () => {
     setShowMobileContactList(true);
     setSelectedContactId(null);
     if (onMobileChatActiveChange) onMobileChatActiveChange(false);
   };
 
-  if (contacts.length === 0) {
+  if (contacts.length === 0 && calendarEvents.length === 0) {
     return (
       <div className="h-full flex items-center justify-center bg-gray-50 dark:bg-gray-900">
         <div className="text-center">
@@ -81,41 +128,189 @@ export default function MessagingApp({ smsData, onMobileChatActiveChange }: Mess
           </svg>
           <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100 mb-2">No messages found</h3>
           <p className="text-sm text-gray-500 dark:text-gray-400">Load SMS data to see conversations</p>
+          {qualityReport.issues.length > 0 && (
+            <button
+              onClick={() => setShowQualityPanel(true)}
+              className="text-xs text-blue-500 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300 mt-2"
+            >
+              {qualityReport.skippedRecords} records were skipped – view data quality report
+            </button>
+          )}
         </div>
+        {showQualityPanel && (
+          <DataQualityPanel
+            report={qualityReport}
+            contacts={contacts}
+            onIssueSelect={handleIssueSelect}
+            onClose={() => setShowQualityPanel(false)}
+          />
+        )}
       </div>
     );
   }
 
+  const qualityIssueCount = qualityReport.skippedRecords + qualityReport.repairedRecords;
+
   return (
-    <div className="h-full flex bg-white dark:bg-gray-900 relative">
-      {/* Contact List Sidebar - Always visible on desktop, toggleable on mobile */}
+    <div className="h-full flex flex-col bg-white dark:bg-gray-900">
+      {/* Dataset toolbar - hidden on mobile while a conversation is open */}
       <div className={`
         ${showMobileContactList ? 'flex' : 'hidden md:flex'}
-        w-full md:w-80 lg:w-96 flex-shrink-0 bg-white dark:bg-gray-900 z-10
+        items-center justify-between gap-2 h-10 px-4 border-b border-gray-100 dark:border-gray-700 flex-shrink-0
       `}>
-        <ContactList
+        <div className="flex items-center gap-1">
+          {([
+            ['messages', 'Messages'],
+            ['timeline', 'Timeline'],
+            ['calendar', `Calendar${calendarEvents.length ? ` (${calendarEvents.length})` : ''}`],
+            ['map', 'Map'],
+          ] as [AppView, string][]).map(([value, label]) => (
+            <button
+              key={value}
+              onClick={() => setView(value)}
+              className={`px-3 py-1 rounded-full text-xs font-medium transition-colors ${
+                view === value
+                  ? 'bg-blue-600 text-white'
+                  : 'text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setStatsContactId(null)}
+            className="inline-flex items-center gap-1.5 px-2.5 py-1 rounded-full text-xs font-medium bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"
+            title="Statistics for all conversations"
+          >
+            <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
+            </svg>
+            Statistics
+          </button>
+          <button
+            onClick={() => setShowContactManager(true)}
+            className="inline-flex items-center gap-1.5 px-2.5 py-1 rounded-full text-xs font-medium bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"
+            title="Merge conversations of one person or split numbers apart"
+          >
+            <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0z" />
+            </svg>
+            Contacts
+          </button>
+          <button
+            onClick={() => setShowQualityPanel(true)}
+            className={`inline-flex items-center gap-1.5 px-2.5 py-1 rounded-full text-xs font-medium transition-colors ${
+              qualityIssueCount > 0
+                ? 'bg-amber-100 dark:bg-amber-900/30 text-amber-800 dark:text-amber-200 hover:bg-amber-200 dark:hover:bg-amber-900/50'
+                : 'bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700'
+            }`}
+            title="Show records that were skipped or repaired during import"
+          >
+            <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01M10.29 3.86L1.82 18a2 2 0 001.71 3h16.94a2 2 0 001.71-3L13.71 3.86a2 2 0 00-3.42 0z" />
+            </svg>
+            {qualityIssueCount > 0
+              ? `${qualityReport.skippedRecords} skipped · ${qualityReport.repairedRecords} repaired`
+              : 'Data quality'}
+          </button>
+        </div>
+      </div>
+
+      {view === 'timeline' ? (
+        <div className="flex-1 min-h-0 flex">
+          <TimelineView
+            contacts={contacts}
+            messagesByContact={messagesByContact}
+            onContactSelect={handleContactSelect}
+          />
+        </div>
+      ) : view === 'calendar' ? (
+        <div className="flex-1 min-h-0 flex">
+          <CalendarView
+            events={calendarEvents}
+            contacts={contacts}
+            messagesByContact={messagesByContact}
+            onContactSelect={handleContactSelect}
+          />
+        </div>
+      ) : view === 'map' ? (
+        <div className="flex-1 min-h-0 flex">
+          <MapView
+            contacts={contacts}
+            messagesByContact={messagesByContact}
+            initialContactId={selectedContactId}
+            onContactSelect={handleContactSelect}
+          />
+        </div>
+      ) : (
+        <div className="flex-1 min-h-0 flex relative">
+          {/* Contact List Sidebar - Always visible on desktop, toggleable on mobile */}
+          <div className={`
+            ${showMobileContactList ? 'flex' : 'hidden md:flex'}
+            w-full md:w-80 lg:w-96 flex-shrink-0 bg-white dark:bg-gray-900 z-10
+          `}>
+            <ContactList
+              contacts={contacts}
+              selectedContactId={selectedContactId}
+              onContactSelect={handleContactSelect}
+              messagesByContact={messagesByContact}
+              searchIndex={searchIndex}
+              phoneRegion={phoneRegion}
+            />
+          </div>
+
+          {/* Message Thread - Hidden on mobile when contact list is showing */}
+          <div className={`
+            ${showMobileContactList ? 'hidden md:flex' : 'flex'}
+            flex-1 min-w-0 bg-white dark:bg-gray-900
+          `}>
+            <MessageThread
+              contact={selectedContact}
+              messages={selectedMessages}
+              scrollToMessageId={scrollToMessageId}
+              onBack={handleBackToContacts}
+              showSources={data.sources.length > 1}
+              onShowStats={() => setStatsContactId(selectedContactId)}
+            />
+          </div>
+        </div>
+      )}
+
+      {showQualityPanel && (
+        <DataQualityPanel
+          report={qualityReport}
           contacts={contacts}
-          selectedContactId={selectedContactId}
-          onContactSelect={handleContactSelect}
-          messagesByContact={messagesByContact}
-          searchIndex={searchIndex}
+          onIssueSelect={handleIssueSelect}
+          onClose={() => setShowQualityPanel(false)}
         />
-      </div>
+      )}
 
-      {/* Message Thread - Hidden on mobile when contact list is showing */}
-      <div className={`
-        ${showMobileContactList ? 'hidden md:flex' : 'flex'}
-        flex-1 min-w-0 bg-white dark:bg-gray-900
-      `}>
-        <MessageThread
-          contact={selectedContact}
-          messages={selectedMessages}
-          scrollToMessageId={scrollToMessageId}
-          onBack={handleBackToContacts}
+      {statsContactId !== undefined && (
+        <StatsPanel
+          contacts={contacts}
+          messagesByContact={messagesByContact}
+          initialContactId={statsContactId}
+          onClose={() => setStatsContactId(undefined)}
         />
-      </div>
+      )}
 
-      
+      {showContactManager && (
+        <ContactManagerPanel
+          contacts={contacts}
+          messagesByContact={messagesByContact}
+          originalContacts={data.contacts}
+          overrides={overrides}
+          onMerge={handleMerge}
+          onUnmerge={unmergeContact}
+          onSplit={splitNumber}
+          onRejoin={rejoinNumber}
+          onReset={resetOverrides}
+          onClose={() => setShowContactManager(false)}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
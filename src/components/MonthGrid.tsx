@@ -0,0 +1,95 @@
+import { useMemo } from 'react';
+import { getDayKey } from '../utils/messageUtils';
+import { getMonthGridDays } from '../utils/calendarUtils';
+import { useDisplayTimeZone } from '../hooks/useDisplayTimeZone';
+
+interface MonthGridProps {
+  year: number;
+  month: number;
+  // Number of items per day key, used to mark days with activity
+  activity: Map<string, number>;
+  selectedDayKey?: string | null;
+  onDaySelect: (dayKey: string) => void;
+  onMonthChange: (year: number, month: number) => void;
+}
+
+const WEEKDAYS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+
+export default function MonthGrid({ year, month, activity, selectedDayKey, onDaySelect, onMonthChange }: MonthGridProps) {
+  const days = useMemo(() => getMonthGridDays(year, month), [year, month]);
+  const { zoneFor } = useDisplayTimeZone();
+  const todayKey = getDayKey(new Date(), zoneFor());
+
+  const monthLabel = new Date(year, month, 1).toLocaleDateString([], {
+    month: 'long',
+    year: 'numeric',
+  });
+
+  const stepMonth = (delta: number) => {
+    const next = new Date(year, month + delta, 1);
+    onMonthChange(next.getFullYear(), next.getMonth());
+  };
+
+  return (
+    <div className="w-full select-none">
+      <div className="flex items-center justify-between mb-2">
+        <button
+          onClick={() => stepMonth(-1)}
+          className="p-1.5 rounded-full text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800"
+          aria-label="Previous month"
+        >
+          <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+          </svg>
+        </button>
+        <span className="text-sm font-medium text-gray-900 dark:text-gray-100">{monthLabel}</span>
+        <button
+          onClick={() => stepMonth(1)}
+          className="p-1.5 rounded-full text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800"
+          aria-label="Next month"
+        >
+          <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+          </svg>
+        </button>
+      </div>
+
+      <div className="grid grid-cols-7 gap-1 text-center">
+        {WEEKDAYS.map((weekday, index) => (
+          <span key={index} className="text-[11px] font-medium text-gray-400 dark:text-gray-500">
+            {weekday}
+          </span>
+        ))}
+
+        {days.map(({ dayKey, day, inMonth }) => {
+          const count = activity.get(dayKey) || 0;
+          const isSelected = dayKey === selectedDayKey;
+          const isToday = dayKey === todayKey;
+
+          return (
+            <button
+              key={dayKey}
+              onClick={() => onDaySelect(dayKey)}
+              disabled={count === 0}
+              title={count > 0 ? `${count} item${count === 1 ? '' : 's'}` : undefined}
+              className={`relative h-8 rounded-lg text-xs transition-colors ${
+                isSelected
+                  ? 'bg-blue-600 text-white'
+                  : count > 0
+                    ? 'bg-blue-50 dark:bg-blue-900/20 text-blue-800 dark:text-blue-200 hover:bg-blue-100 dark:hover:bg-blue-900/40 font-medium'
+                    : inMonth
+                      ? 'text-gray-700 dark:text-gray-300 cursor-default'
+                      : 'text-gray-300 dark:text-gray-600 cursor-default'
+              } ${isToday && !isSelected ? 'ring-1 ring-blue-400' : ''}`}
+            >
+              {day}
+              {count > 0 && !isSelected && (
+                <span className="absolute bottom-1 left-1/2 -translate-x-1/2 w-1 h-1 rounded-full bg-blue-500" />
+              )}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,24 @@
+import { PHONE_REGIONS } from '../utils/phoneUtils';
+
+interface PhoneRegionSelectProps {
+  value: string;
+  onChange: (region: string) => void;
+}
+
+export default function PhoneRegionSelect({ value, onChange }: PhoneRegionSelectProps) {
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="max-w-[9rem] px-2 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 text-xs focus:ring-2 focus:ring-blue-500 focus:outline-none"
+      aria-label="Default phone region"
+      title="Country assumed for numbers written without a country code"
+    >
+      {PHONE_REGIONS.map(region => (
+        <option key={region.code} value={region.code}>
+          {region.name} (+{region.callingCode})
+        </option>
+      ))}
+    </select>
+  );
+}
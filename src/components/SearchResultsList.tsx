@@ -0,0 +1,188 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { List, AutoSizer } from 'react-virtualized';
+import type { Contact, Message, SearchHit, SearchResults } from '../types';
+import { formatMessageTime, getContactDisplayName } from '../utils/messageUtils';
+import { createSnippet } from '../utils/searchQuery';
+import { useDisplayTimeZone } from '../hooks/useDisplayTimeZone';
+import { getTextDirection } from '../utils/thaanaUtils';
+import HighlightedText from './HighlightedText';
+
+type ResultSort = 'relevance' | 'newest' | 'oldest';
+
+const SORT_LABELS: Record<ResultSort, string> = {
+  relevance: 'Best match',
+  newest: 'Newest',
+  oldest: 'Oldest',
+};
+
+const HEADER_HEIGHT = 36;
+const HIT_HEIGHT = 64;
+
+type ResultRow =
+  | { type: 'header'; contactId: string; name: string; count: number }
+  | { type: 'hit'; hit: SearchHit; message: Message };
+
+interface SearchResultsListProps {
+  results: SearchResults;
+  contacts: Contact[];
+  messagesByContact: Map<string, Message[]>;
+  onResultSelect: (contactId: string, messageId: number) => void;
+}
+
+// Every matching message across all conversations, grouped by contact
+export default function SearchResultsList({
+  results,
+  contacts,
+  messagesByContact,
+  onResultSelect,
+}: SearchResultsListProps) {
+  const [sort, setSort] = useState<ResultSort>('relevance');
+  const listRef = useRef<List>(null);
+  const { zoneFor } = useDisplayTimeZone();
+
+  const contactNames = useMemo(() => {
+    const names = new Map<string, string>();
+    contacts.forEach(contact => {
+      names.set(contact.normalizedPhone || contact.phone, getContactDisplayName(contact));
+    });
+    return names;
+  }, [contacts]);
+
+  // Hits paired with their messages, grouped per contact in ranked order
+  const groups = useMemo(() => {
+    const byContact = new Map<string, { hit: SearchHit; message: Message }[]>();
+    const messageLookups = new Map<string, Map<number, Message>>();
+
+    results.hits.forEach(hit => {
+      let lookup = messageLookups.get(hit.contactId);
+      if (!lookup) {
+        lookup = new Map((messagesByContact.get(hit.contactId) || []).map(m => [m.id, m]));
+        messageLookups.set(hit.contactId, lookup);
+      }
+      const message = lookup.get(hit.messageId);
+      if (!message) return;
+
+      let group = byContact.get(hit.contactId);
+      if (!group) {
+        group = [];
+        byContact.set(hit.contactId, group);
+      }
+      group.push({ hit, message });
+    });
+
+    return Array.from(byContact.entries());
+  }, [results, messagesByContact]);
+
+  const rows = useMemo(() => {
+    const sorted = groups.map(([contactId, hits]) => {
+      if (sort === 'relevance') return { contactId, hits };
+      const direction = sort === 'newest' ? -1 : 1;
+      return {
+        contactId,
+        hits: [...hits].sort((a, b) =>
+          direction * (a.message.timestamp.getTime() - b.message.timestamp.getTime())
+        ),
+      };
+    });
+    // By date, a conversation is placed by its first hit in that order
+    if (sort !== 'relevance') {
+      const direction = sort === 'newest' ? -1 : 1;
+      sorted.sort((a, b) =>
+        direction * (a.hits[0].message.timestamp.getTime() - b.hits[0].message.timestamp.getTime())
+      );
+    }
+
+    const result: ResultRow[] = [];
+    sorted.forEach(({ contactId, hits }) => {
+      result.push({
+        type: 'header',
+        contactId,
+        name: contactNames.get(contactId) || contactId,
+        count: hits.length,
+      });
+      hits.forEach(({ hit, message }) => result.push({ type: 'hit', hit, message }));
+    });
+    return result;
+  }, [groups, sort, contactNames]);
+
+  // Row heights depend on the row type, so they change with the rows
+  useEffect(() => {
+    listRef.current?.recomputeRowHeights();
+    listRef.current?.scrollToPosition(0);
+  }, [rows]);
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex items-center justify-between gap-2 px-4 py-2 border-b border-gray-100 dark:border-gray-700">
+        <span className="text-xs text-gray-500 dark:text-gray-400">
+          {results.hits.length.toLocaleString()} message{results.hits.length === 1 ? '' : 's'} in {groups.length} conversation{groups.length === 1 ? '' : 's'}
+        </span>
+        <select
+          value={sort}
+          onChange={(e) => setSort(e.target.value as ResultSort)}
+          className="text-xs px-2 py-1 rounded-md bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 border border-transparent focus:ring-2 focus:ring-blue-500 focus:outline-none"
+          aria-label="Sort search results"
+        >
+          {(Object.keys(SORT_LABELS) as ResultSort[]).map(option => (
+            <option key={option} value={option}>{SORT_LABELS[option]}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex-1 min-h-0">
+        <AutoSizer>
+          {({ height, width }) => (
+            <List
+              ref={listRef}
+              height={height}
+              width={width}
+              rowCount={rows.length}
+              rowHeight={({ index }) => rows[index].type === 'header' ? HEADER_HEIGHT : HIT_HEIGHT}
+              overscanRowCount={10}
+              rowRenderer={({ index, key, style }) => {
+                const row = rows[index];
+                if (row.type === 'header') {
+                  return (
+                    <div
+                      key={key}
+                      style={style}
+                      className="px-4 flex items-center justify-between bg-gray-50 dark:bg-gray-800/60 border-b border-gray-100 dark:border-gray-800"
+                    >
+                      <span className="text-xs font-semibold text-gray-700 dark:text-gray-200 truncate">
+                        {row.name}
+                      </span>
+                      <span className="text-[11px] text-gray-500 dark:text-gray-400 flex-shrink-0 ml-2">
+                        {row.count}
+                      </span>
+                    </div>
+                  );
+                }
+
+                const { hit, message } = row;
+                const { snippet, highlights } = createSnippet(String(message.text || ''), hit.highlights);
+                return (
+                  <button
+                    key={key}
+                    style={style}
+                    type="button"
+                    onClick={() => onResultSelect(hit.contactId, hit.messageId)}
+                    className="w-full text-start px-4 py-2 border-b border-gray-100 dark:border-gray-800 hover:bg-blue-50 dark:hover:bg-blue-900/20"
+                    title="Click to jump to this message"
+                  >
+                    <div className="flex items-center justify-between text-[11px] text-gray-500 dark:text-gray-400">
+                      <span>{message.isCallLog ? 'Call' : message.isFromMe ? 'Sent' : 'Received'}</span>
+                      <span>{formatMessageTime(message.timestamp, zoneFor(message.utcOffset))}</span>
+                    </div>
+                    <p className="text-xs text-gray-700 dark:text-gray-300 line-clamp-2" dir={getTextDirection(snippet)}>
+                      <HighlightedText text={snippet || '(no text)'} highlights={snippet ? highlights : []} />
+                    </p>
+                  </button>
+                );
+              }}
+            />
+          )}
+        </AutoSizer>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,270 @@
+import { useMemo, useState } from 'react';
+import type { Contact, Message } from '../types';
+import { getContactDisplayName } from '../utils/messageUtils';
+import { computeMessageStats, formatDuration } from '../utils/statsUtils';
+import type { MessageStats } from '../utils/statsUtils';
+import { formatDateInZone } from '../utils/timeZoneUtils';
+import { useDisplayTimeZone } from '../hooks/useDisplayTimeZone';
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+interface StatsPanelProps {
+  contacts: Contact[];
+  messagesByContact: Map<string, Message[]>;
+  // Conversation shown first; null shows the whole dataset
+  initialContactId: string | null;
+  onClose: () => void;
+}
+
+export default function StatsPanel({ contacts, messagesByContact, initialContactId, onClose }: StatsPanelProps) {
+  const { zoneFor } = useDisplayTimeZone();
+  const [contactId, setContactId] = useState(initialContactId);
+
+  const contact = contactId
+    ? contacts.find(c => (c.normalizedPhone || c.phone) === contactId) || null
+    : null;
+
+  const stats = useMemo(() => computeMessageStats(
+    contactId ? [messagesByContact.get(contactId) || []] : Array.from(messagesByContact.values()),
+    zoneFor
+  ), [contactId, messagesByContact, zoneFor]);
+
+  const formatDate = (message: Message | null) => message
+    ? formatDateInZone(message.timestamp, zoneFor(message.utcOffset), { year: 'numeric', month: 'short', day: 'numeric' })
+    : '–';
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center bg-black/40 p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-3xl h-[80vh] flex flex-col bg-white dark:bg-gray-900 rounded-xl shadow-xl border border-gray-200 dark:border-gray-700"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-4 py-3 border-b border-gray-100 dark:border-gray-700">
+          <div className="min-w-0">
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100 tracking-tight truncate">
+              {contact ? getContactDisplayName(contact) : 'All conversations'}
+            </h2>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              {formatDate(stats.first)} – {formatDate(stats.last)}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            {initialContactId && (
+              <div className="flex items-center gap-1">
+                <ScopeChip label="This conversation" active={contactId !== null} onClick={() => setContactId(initialContactId)} />
+                <ScopeChip label="All" active={contactId === null} onClick={() => setContactId(null)} />
+              </div>
+            )}
+            <button
+              onClick={onClose}
+              className="p-2 rounded-full text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800"
+              aria-label="Close statistics"
+            >
+              <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 min-h-0 overflow-y-auto px-4 py-3 space-y-5">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+            <SummaryStat label="Sent" value={stats.sent.toLocaleString()} />
+            <SummaryStat label="Received" value={stats.received.toLocaleString()} />
+            <SummaryStat label="Calls out / in" value={`${stats.outgoingCalls.toLocaleString()} / ${stats.incomingCalls.toLocaleString()}`} />
+            <SummaryStat label="Days covered" value={
+              stats.first && stats.last
+                ? Math.max(1, Math.ceil((stats.last.timestamp.getTime() - stats.first.timestamp.getTime()) / 86400000)).toLocaleString()
+                : '–'
+            } />
+            <SummaryStat
+              label="My average reply"
+              value={stats.myResponseTime === null ? '–' : formatDuration(stats.myResponseTime)}
+            />
+            <SummaryStat
+              label={contact ? 'Their average reply' : 'Average reply to me'}
+              value={stats.theirResponseTime === null ? '–' : formatDuration(stats.theirResponseTime)}
+            />
+            <SummaryStat label="First contact" value={formatDate(stats.first)} />
+            <SummaryStat label="Last contact" value={formatDate(stats.last)} />
+          </div>
+
+          <section>
+            <h3 className="text-sm font-medium text-gray-900 dark:text-gray-100 mb-2">Messages per month</h3>
+            {stats.months.length > 0 ? <MonthHistogram months={stats.months} /> : <EmptyChart />}
+            <div className="flex items-center gap-3 mt-1 text-xs text-gray-500 dark:text-gray-400">
+              <span className="inline-flex items-center gap-1"><span className="w-2.5 h-2.5 rounded-sm bg-blue-500" />Sent</span>
+              <span className="inline-flex items-center gap-1"><span className="w-2.5 h-2.5 rounded-sm bg-gray-400 dark:bg-gray-500" />Received</span>
+            </div>
+          </section>
+
+          <section>
+            <h3 className="text-sm font-medium text-gray-900 dark:text-gray-100 mb-2">By day and hour</h3>
+            {stats.months.length > 0 ? <ActivityHeatmap heatmap={stats.heatmap} /> : <EmptyChart />}
+          </section>
+
+          <section>
+            <h3 className="text-sm font-medium text-gray-900 dark:text-gray-100 mb-2">Longest silences</h3>
+            {stats.silences.length > 0 ? (
+              <ul className="divide-y divide-gray-100 dark:divide-gray-800 text-sm">
+                {stats.silences.map(silence => (
+                  <li key={silence.from.id} className="flex items-center justify-between py-1.5">
+                    <span className="text-gray-700 dark:text-gray-300">
+                      {formatDate(silence.from)} – {formatDate(silence.to)}
+                    </span>
+                    <span className="text-gray-500 dark:text-gray-400">{formatDuration(silence.duration)}</span>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-gray-500 dark:text-gray-400">Not enough messages</p>
+            )}
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+const HISTOGRAM_WIDTH = 600;
+const HISTOGRAM_HEIGHT = 120;
+const AXIS_HEIGHT = 16;
+
+// Stacked bars, received at the bottom, with the year under each January
+function MonthHistogram({ months }: { months: MessageStats['months'] }) {
+  const max = Math.max(1, ...months.map(month => month.sent + month.received));
+  const barWidth = HISTOGRAM_WIDTH / months.length;
+  const gap = barWidth > 4 ? 1 : 0;
+  const scale = (count: number) => (count / max) * HISTOGRAM_HEIGHT;
+
+  return (
+    <svg
+      viewBox={`0 0 ${HISTOGRAM_WIDTH} ${HISTOGRAM_HEIGHT + AXIS_HEIGHT}`}
+      className="w-full h-auto"
+      role="img"
+      aria-label="Messages per month"
+    >
+      <line x1={0} x2={HISTOGRAM_WIDTH} y1={HISTOGRAM_HEIGHT} y2={HISTOGRAM_HEIGHT} className="stroke-gray-200 dark:stroke-gray-700" />
+      {months.map((month, index) => {
+        const x = index * barWidth;
+        const receivedHeight = scale(month.received);
+        const sentHeight = scale(month.sent);
+        const label = new Date(month.year, month.month).toLocaleDateString([], { month: 'short', year: 'numeric' });
+        return (
+          <g key={`${month.year}-${month.month}`}>
+            <title>{`${label}: ${month.sent.toLocaleString()} sent, ${month.received.toLocaleString()} received`}</title>
+            {/* Full-height target so empty months still show their tooltip */}
+            <rect x={x} y={0} width={barWidth} height={HISTOGRAM_HEIGHT} fill="transparent" />
+            <rect
+              x={x + gap / 2}
+              y={HISTOGRAM_HEIGHT - receivedHeight}
+              width={barWidth - gap}
+              height={receivedHeight}
+              className="fill-gray-400 dark:fill-gray-500"
+            />
+            <rect
+              x={x + gap / 2}
+              y={HISTOGRAM_HEIGHT - receivedHeight - sentHeight}
+              width={barWidth - gap}
+              height={sentHeight}
+              className="fill-blue-500"
+            />
+            {(month.month === 0 || index === 0) && (
+              <text
+                x={x}
+                y={HISTOGRAM_HEIGHT + AXIS_HEIGHT - 3}
+                fontSize={10}
+                className="fill-gray-500 dark:fill-gray-400"
+              >
+                {month.year}
+              </text>
+            )}
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
+
+const CELL_WIDTH = 20;
+const CELL_HEIGHT = 16;
+const LABEL_WIDTH = 32;
+
+function ActivityHeatmap({ heatmap }: { heatmap: number[][] }) {
+  const max = Math.max(1, ...heatmap.flat());
+
+  return (
+    <svg
+      viewBox={`0 0 ${LABEL_WIDTH + 24 * CELL_WIDTH} ${7 * CELL_HEIGHT + AXIS_HEIGHT}`}
+      className="w-full h-auto"
+      role="img"
+      aria-label="Messages by day of week and hour"
+    >
+      {heatmap.map((hours, weekday) => (
+        <g key={weekday}>
+          <text
+            x={0}
+            y={weekday * CELL_HEIGHT + CELL_HEIGHT - 4}
+            fontSize={10}
+            className="fill-gray-500 dark:fill-gray-400"
+          >
+            {WEEKDAYS[weekday]}
+          </text>
+          {hours.map((count, hour) => (
+            <rect
+              key={hour}
+              x={LABEL_WIDTH + hour * CELL_WIDTH + 1}
+              y={weekday * CELL_HEIGHT + 1}
+              width={CELL_WIDTH - 2}
+              height={CELL_HEIGHT - 2}
+              rx={2}
+              className={count > 0 ? 'fill-blue-600 dark:fill-blue-400' : 'fill-gray-100 dark:fill-gray-800'}
+              fillOpacity={count > 0 ? 0.15 + 0.85 * (count / max) : 1}
+            >
+              <title>{`${WEEKDAYS[weekday]} ${String(hour).padStart(2, '0')}:00 – ${count.toLocaleString()}`}</title>
+            </rect>
+          ))}
+        </g>
+      ))}
+      {[0, 6, 12, 18].map(hour => (
+        <text
+          key={hour}
+          x={LABEL_WIDTH + hour * CELL_WIDTH}
+          y={7 * CELL_HEIGHT + AXIS_HEIGHT - 3}
+          fontSize={10}
+          className="fill-gray-500 dark:fill-gray-400"
+        >
+          {String(hour).padStart(2, '0')}:00
+        </text>
+      ))}
+    </svg>
+  );
+}
+
+function EmptyChart() {
+  return <p className="text-sm text-gray-500 dark:text-gray-400">No messages</p>;
+}
+
+function SummaryStat({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="rounded-lg bg-gray-50 dark:bg-gray-800 px-3 py-2">
+      <p className="text-lg font-semibold text-gray-900 dark:text-gray-100 truncate">{value}</p>
+      <p className="text-xs text-gray-500 dark:text-gray-400">{label}</p>
+    </div>
+  );
+}
+
+function ScopeChip({ label, active, onClick }: { label: string; active: boolean; onClick: () => void }) {
+  return (
+    <button
+      onClick={onClick}
+      className={`px-2.5 py-1 rounded-full text-xs font-medium transition-colors ${
+        active
+          ? 'bg-blue-600 text-white'
+          : 'bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700'
+      }`}
+    >
+      {label}
+    </button>
+  );
+}
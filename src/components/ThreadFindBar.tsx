@@ -0,0 +1,90 @@
+import type { RefObject } from 'react';
+
+interface ThreadFindBarProps {
+  query: string;
+  onQueryChange: (query: string) => void;
+  matchCount: number;
+  // Zero-based position of the current match
+  activeIndex: number;
+  onNext: () => void;
+  onPrevious: () => void;
+  onClose: () => void;
+  inputRef: RefObject<HTMLInputElement | null>;
+}
+
+export default function ThreadFindBar({
+  query,
+  onQueryChange,
+  matchCount,
+  activeIndex,
+  onNext,
+  onPrevious,
+  onClose,
+  inputRef,
+}: ThreadFindBarProps) {
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      if (e.shiftKey) onPrevious();
+      else onNext();
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2 px-4 py-2 border-b border-gray-100 dark:border-gray-700 bg-white dark:bg-gray-900">
+      <div className="relative flex-1">
+        <input
+          ref={inputRef}
+          type="text"
+          value={query}
+          onChange={(e) => onQueryChange(e.target.value)}
+          onKeyDown={handleKeyDown}
+          dir="auto"
+          placeholder="Find in conversation"
+          className="w-full pl-3 pr-20 py-1.5 rounded-lg bg-gray-100 dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-blue-500 focus:outline-none border border-transparent text-sm placeholder:text-gray-500 dark:placeholder:text-gray-400"
+          aria-label="Find in conversation"
+        />
+        {query && (
+          <span className="absolute right-3 top-1/2 -translate-y-1/2 text-xs text-gray-500 dark:text-gray-400 tabular-nums">
+            {matchCount > 0 ? `${activeIndex + 1} of ${matchCount}` : 'No results'}
+          </span>
+        )}
+      </div>
+      <button
+        onClick={onPrevious}
+        disabled={matchCount === 0}
+        className="p-1.5 rounded-full text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 disabled:opacity-40 disabled:cursor-not-allowed"
+        aria-label="Previous match"
+        title="Previous match (Shift+Enter)"
+      >
+        <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" />
+        </svg>
+      </button>
+      <button
+        onClick={onNext}
+        disabled={matchCount === 0}
+        className="p-1.5 rounded-full text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 disabled:opacity-40 disabled:cursor-not-allowed"
+        aria-label="Next match"
+        title="Next match (Enter)"
+      >
+        <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+      <button
+        onClick={onClose}
+        className="p-1.5 rounded-full text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800"
+        aria-label="Close find"
+        title="Close (Esc)"
+      >
+        <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+        </svg>
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+import { useMemo } from 'react';
+import { useDisplayTimeZone } from '../hooks/useDisplayTimeZone';
+import { getLocalTimeZone, listTimeZones } from '../utils/timeZoneUtils';
+
+export default function TimeZoneSelect() {
+  const { displayTimeZone, setDisplayTimeZone } = useDisplayTimeZone();
+  const timeZones = useMemo(() => listTimeZones(), []);
+  const localTimeZone = getLocalTimeZone();
+
+  return (
+    <select
+      value={displayTimeZone}
+      onChange={(e) => setDisplayTimeZone(e.target.value)}
+      className="max-w-[11rem] px-2 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 text-xs focus:ring-2 focus:ring-blue-500 focus:outline-none"
+      aria-label="Display time zone"
+      title="Time zone used to display message times"
+    >
+      <option value="source">Source zone (as recorded)</option>
+      <option value="local">Local ({localTimeZone})</option>
+      <optgroup label="Time zones">
+        {timeZones.map(timeZone => (
+          <option key={timeZone} value={timeZone}>
+            {timeZone.replace(/_/g, ' ')}
+          </option>
+        ))}
+      </optgroup>
+    </select>
+  );
+}
@@ -0,0 +1,298 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { List, CellMeasurer, CellMeasurerCache, AutoSizer } from "react-virtualized";
+import type { MeasuredCellParent } from "react-virtualized/dist/es/CellMeasurer";
+import type { Contact, Message } from "../types";
+import { getContactDisplayName, getDayKey } from "../utils/messageUtils";
+import { describeAttachments } from "../utils/attachmentUtils";
+import { describeCall, isMissedCall } from "../utils/callUtils";
+import { getContactColor } from "../utils/contactColors";
+import { getTextDirection } from "../utils/thaanaUtils";
+import { useDisplayTimeZone } from "../hooks/useDisplayTimeZone";
+import {
+  formatDateInZone,
+  formatTimeInZone,
+  getZonedParts,
+  type ZoneSpec,
+} from "../utils/timeZoneUtils";
+
+interface TimelineViewProps {
+  contacts: Contact[];
+  messagesByContact: Map<string, Message[]>;
+  onContactSelect: (contactId: string, targetMessageId?: number) => void;
+}
+
+interface TimelineEntry {
+  contactId: string;
+  message: Message;
+  zone: ZoneSpec;
+  dayKey: string;
+  // "YYYY-MM-DDTHH:mm" in the display zone, comparable with datetime-local values
+  minuteKey: string;
+}
+
+type TimelineItem =
+  | { type: "day"; entry: TimelineEntry; count: number }
+  | { type: "entry"; entry: TimelineEntry };
+
+export default function TimelineView({ contacts, messagesByContact, onContactSelect }: TimelineViewProps) {
+  const listRef = useRef<List>(null);
+  const cacheRef = useRef<CellMeasurerCache | null>(null);
+  const { zoneFor } = useDisplayTimeZone();
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [jumpDay, setJumpDay] = useState("");
+
+  if (!cacheRef.current) {
+    cacheRef.current = new CellMeasurerCache({
+      fixedWidth: true,
+      defaultHeight: 56,
+      minHeight: 32,
+    });
+  }
+
+  const contactsById = useMemo(() => {
+    const map = new Map<string, Contact>();
+    contacts.forEach((contact) => {
+      map.set(contact.normalizedPhone || contact.phone, contact);
+    });
+    return map;
+  }, [contacts]);
+
+  // Every message and call of every conversation, oldest first
+  const entries = useMemo(() => {
+    const all: TimelineEntry[] = [];
+    messagesByContact.forEach((messages, contactId) => {
+      messages.forEach((message) => {
+        const zone = zoneFor(message.utcOffset);
+        const { hour, minute } = getZonedParts(message.timestamp, zone);
+        const dayKey = getDayKey(message.timestamp, zone);
+        all.push({
+          contactId,
+          message,
+          zone,
+          dayKey,
+          minuteKey: `${dayKey}T${String(hour).padStart(2, "0")}:${String(minute).padStart(2, "0")}`,
+        });
+      });
+    });
+    return all.sort((a, b) => a.message.timestamp.getTime() - b.message.timestamp.getTime());
+  }, [messagesByContact, zoneFor]);
+
+  // Entries inside the range, with a heading at the start of every day
+  const items = useMemo(() => {
+    const inRange = entries.filter(
+      (entry) => (!from || entry.minuteKey >= from) && (!to || entry.minuteKey <= to)
+    );
+    const dayCounts = new Map<string, number>();
+    inRange.forEach((entry) => dayCounts.set(entry.dayKey, (dayCounts.get(entry.dayKey) || 0) + 1));
+
+    const result: TimelineItem[] = [];
+    let previousDayKey = "";
+    inRange.forEach((entry) => {
+      if (entry.dayKey !== previousDayKey) {
+        result.push({ type: "day", entry, count: dayCounts.get(entry.dayKey)! });
+        previousDayKey = entry.dayKey;
+      }
+      result.push({ type: "entry", entry });
+    });
+    return result;
+  }, [entries, from, to]);
+
+  const entryCount = items.length - items.filter((item) => item.type === "day").length;
+
+  useEffect(() => {
+    cacheRef.current?.clearAll();
+    listRef.current?.forceUpdateGrid();
+  }, [items]);
+
+  const jumpTo = (dayKey: string) => {
+    setJumpDay(dayKey);
+    if (!dayKey) return;
+    const targetIndex = items.findIndex((item) => item.type === "day" && item.entry.dayKey >= dayKey);
+    if (!listRef.current) return;
+    const index = targetIndex === -1 ? items.length - 1 : targetIndex;
+    listRef.current.scrollToRow(index);
+    requestAnimationFrame(() => {
+      if (!listRef.current) return;
+      listRef.current.recomputeRowHeights(index);
+      listRef.current.scrollToRow(index);
+    });
+  };
+
+  const inputClasses =
+    "text-xs px-2 py-1 rounded-md bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 border border-transparent focus:ring-2 focus:ring-blue-500 focus:outline-none";
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0 bg-white dark:bg-gray-900">
+      <div className="flex flex-wrap items-center gap-2 px-4 py-2 border-b border-gray-100 dark:border-gray-700">
+        <label className="flex items-center gap-1.5 text-xs text-gray-500 dark:text-gray-400">
+          From
+          <input
+            type="datetime-local"
+            value={from}
+            max={to || undefined}
+            onChange={(e) => setFrom(e.target.value)}
+            className={inputClasses}
+          />
+        </label>
+        <label className="flex items-center gap-1.5 text-xs text-gray-500 dark:text-gray-400">
+          to
+          <input
+            type="datetime-local"
+            value={to}
+            min={from || undefined}
+            onChange={(e) => setTo(e.target.value)}
+            className={inputClasses}
+          />
+        </label>
+        {(from || to) && (
+          <button
+            onClick={() => {
+              setFrom("");
+              setTo("");
+            }}
+            className="px-2 py-1 rounded-full text-xs font-medium text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800"
+          >
+            Clear
+          </button>
+        )}
+        <span className="mx-1 h-4 border-l border-gray-200 dark:border-gray-700" />
+        <label className="flex items-center gap-1.5 text-xs text-gray-500 dark:text-gray-400">
+          Jump to
+          <input
+            type="date"
+            value={jumpDay}
+            onChange={(e) => jumpTo(e.target.value)}
+            className={inputClasses}
+          />
+        </label>
+        <span className="ml-auto text-xs text-gray-500 dark:text-gray-400">
+          {entryCount.toLocaleString()} of {entries.length.toLocaleString()}
+        </span>
+      </div>
+
+      <div className="flex-1 min-h-0 bg-gray-50 dark:bg-gray-800" style={{ position: "relative" }}>
+        {items.length === 0 ? (
+          <div className="flex items-center justify-center h-32 text-sm text-gray-500 dark:text-gray-400">
+            {entries.length === 0 ? "No messages" : "Nothing happened in this period"}
+          </div>
+        ) : (
+          <div style={{ position: "absolute", top: 0, left: 0, right: 0, bottom: 0 }}>
+            <AutoSizer>
+              {({ height, width }) =>
+                cacheRef.current && (
+                  <List
+                    ref={listRef}
+                    height={height}
+                    width={width}
+                    rowCount={items.length}
+                    scrollToAlignment="start"
+                    deferredMeasurementCache={cacheRef.current}
+                    rowHeight={cacheRef.current.rowHeight}
+                    rowRenderer={({ index, key, parent, style }) => (
+                      <TimelineRow
+                        key={key}
+                        index={index}
+                        items={items}
+                        style={style}
+                        cache={cacheRef.current!}
+                        parent={parent}
+                        contactsById={contactsById}
+                        onContactSelect={onContactSelect}
+                      />
+                    )}
+                    overscanRowCount={10}
+                  />
+                )
+              }
+            </AutoSizer>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+const TimelineRow = ({
+  index,
+  items,
+  style,
+  cache,
+  parent,
+  contactsById,
+  onContactSelect,
+}: {
+  index: number;
+  items: TimelineItem[];
+  style: React.CSSProperties;
+  cache: CellMeasurerCache;
+  parent: MeasuredCellParent;
+  contactsById: Map<string, Contact>;
+  onContactSelect: (contactId: string, targetMessageId?: number) => void;
+}) => {
+  const item = items[index];
+
+  if (item.type === "day") {
+    const { message, zone } = item.entry;
+    return (
+      <CellMeasurer cache={cache} columnIndex={0} parent={parent} rowIndex={index}>
+        <div style={style} className="px-4 pt-4 pb-1">
+          <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-200">
+            {formatDateInZone(message.timestamp, zone, { weekday: "long", year: "numeric", month: "long", day: "numeric" })}
+            <span className="ml-2 text-xs font-normal text-gray-500 dark:text-gray-400">{item.count.toLocaleString()}</span>
+          </h3>
+        </div>
+      </CellMeasurer>
+    );
+  }
+
+  const { contactId, message, zone } = item.entry;
+  const contact = contactsById.get(contactId);
+  const text = message.text || describeAttachments(message.attachments || []);
+
+  return (
+    <CellMeasurer cache={cache} columnIndex={0} parent={parent} rowIndex={index}>
+      <div style={style} className="px-4 py-0.5">
+        <button
+          onClick={() => onContactSelect(contactId, message.id)}
+          className={`w-full flex items-start gap-3 px-3 py-2 rounded-lg text-start hover:bg-white dark:hover:bg-gray-700 ${
+            message.isDeleted ? "opacity-70" : ""
+          }`}
+          title="Open in conversation"
+        >
+          <span className="w-16 flex-shrink-0 pt-0.5 text-xs tabular-nums text-gray-500 dark:text-gray-400">
+            {formatTimeInZone(message.timestamp, zone, { hour: "2-digit", minute: "2-digit", second: "2-digit", hour12: false })}
+          </span>
+          <span className="w-40 flex-shrink-0 flex items-center gap-1.5 min-w-0">
+            <span className={`w-3 h-3 flex-shrink-0 rounded-full bg-gradient-to-br ${getContactColor(contactId)}`} />
+            <span className="truncate text-xs font-medium text-gray-800 dark:text-gray-200">
+              {contact ? getContactDisplayName(contact) : contactId}
+            </span>
+          </span>
+          <span
+            className={`flex-shrink-0 text-xs font-medium ${
+              message.isFromMe ? "text-blue-600 dark:text-blue-400" : "text-gray-500 dark:text-gray-400"
+            }`}
+            title={message.isFromMe ? "Sent" : "Received"}
+          >
+            {message.isFromMe ? "→" : "←"}
+          </span>
+          <span
+            dir={getTextDirection(text)}
+            className={`flex-1 min-w-0 text-sm text-gray-900 dark:text-gray-100 line-clamp-3 break-words ${
+              message.isDeleted ? "line-through decoration-red-400/70" : ""
+            }`}
+          >
+            {message.isCallLog ? (
+              <span className={isMissedCall(message.call) ? "text-red-600 dark:text-red-400" : "text-gray-600 dark:text-gray-300"}>
+                {message.call ? describeCall(message.call) : message.isFromMe ? "Outgoing call" : "Incoming call"}
+              </span>
+            ) : (
+              text
+            )}
+          </span>
+        </button>
+      </div>
+    </CellMeasurer>
+  );
+};
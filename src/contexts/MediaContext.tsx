@@ -0,0 +1,67 @@
+import { useCallback, useEffect, useMemo, useRef, type ReactNode } from 'react';
+import { MediaContext } from './media';
+import { normalizeMediaPath } from '../utils/attachmentUtils';
+
+interface MediaProviderProps {
+  files: File[];
+  children: ReactNode;
+}
+
+export function MediaProvider({ files, children }: MediaProviderProps) {
+  const previousMediaRef = useRef<{ urls: Map<File, string> } | null>(null);
+
+  // Index every path suffix so export paths match regardless of which
+  // parent folder the user picked ("media/IMG_1.jpg" and "IMG_1.jpg" both hit)
+  const media = useMemo(() => {
+    const index = new Map<string, File>();
+    files.forEach(file => {
+      const segments = normalizeMediaPath(file.webkitRelativePath || file.name).split('/');
+      for (let i = 0; i < segments.length; i++) {
+        const key = segments.slice(i).join('/');
+        if (!index.has(key)) index.set(key, file);
+      }
+    });
+    // Object URLs are created lazily and belong to this folder selection
+    return { index, urls: new Map<File, string>() };
+  }, [files]);
+
+  // Release URLs of the previous folder once a new one has been picked.
+  // Not done in an effect cleanup, which StrictMode runs while images still use them.
+  useEffect(() => {
+    const previous = previousMediaRef.current;
+    if (previous && previous !== media) {
+      previous.urls.forEach(url => URL.revokeObjectURL(url));
+      previous.urls.clear();
+    }
+    previousMediaRef.current = media;
+  }, [media]);
+
+  const resolveMedia = useCallback((path: string) => {
+    if (media.index.size === 0 || !path) return null;
+
+    const segments = normalizeMediaPath(path).split('/');
+    for (let i = 0; i < segments.length; i++) {
+      const file = media.index.get(segments.slice(i).join('/'));
+      if (file) {
+        let url = media.urls.get(file);
+        if (!url) {
+          url = URL.createObjectURL(file);
+          media.urls.set(file, url);
+        }
+        return url;
+      }
+    }
+    return null;
+  }, [media]);
+
+  const value = useMemo(
+    () => ({ fileCount: files.length, resolveMedia }),
+    [files.length, resolveMedia]
+  );
+
+  return (
+    <MediaContext.Provider value={value}>
+      {children}
+    </MediaContext.Provider>
+  );
+}
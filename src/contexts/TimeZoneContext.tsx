@@ -0,0 +1,39 @@
+import { useCallback, useEffect, useMemo, useState, type ReactNode } from 'react';
+import { TimeZoneContext } from './timezone';
+import { isValidTimeZone, resolveZone, type DisplayTimeZone } from '../utils/timeZoneUtils';
+
+interface TimeZoneProviderProps {
+  children: ReactNode;
+}
+
+export function TimeZoneProvider({ children }: TimeZoneProviderProps) {
+  const [displayTimeZone, setDisplayTimeZone] = useState<DisplayTimeZone>(() => {
+    if (typeof window !== 'undefined') {
+      const saved = localStorage.getItem('displayTimeZone');
+      if (saved === 'source' || saved === 'local' || (saved && isValidTimeZone(saved))) {
+        return saved;
+      }
+    }
+    return 'source';
+  });
+
+  useEffect(() => {
+    localStorage.setItem('displayTimeZone', displayTimeZone);
+  }, [displayTimeZone]);
+
+  const zoneFor = useCallback(
+    (sourceOffsetMinutes?: number) => resolveZone(displayTimeZone, sourceOffsetMinutes),
+    [displayTimeZone]
+  );
+
+  const value = useMemo(
+    () => ({ displayTimeZone, setDisplayTimeZone, zoneFor }),
+    [displayTimeZone, zoneFor]
+  );
+
+  return (
+    <TimeZoneContext.Provider value={value}>
+      {children}
+    </TimeZoneContext.Provider>
+  );
+}
@@ -0,0 +1,13 @@
+import { createContext } from 'react';
+
+export interface MediaContextType {
+  // Number of files in the loaded media folder
+  fileCount: number;
+  // Object URL for an attachment path, or null when the folder has no match
+  resolveMedia: (path: string) => string | null;
+}
+
+export const MediaContext = createContext<MediaContextType>({
+  fileCount: 0,
+  resolveMedia: () => null,
+});
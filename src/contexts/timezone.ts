@@ -0,0 +1,11 @@
+import { createContext } from 'react';
+import type { DisplayTimeZone, ZoneSpec } from '../utils/timeZoneUtils';
+
+export interface TimeZoneContextType {
+  displayTimeZone: DisplayTimeZone;
+  setDisplayTimeZone: (timeZone: DisplayTimeZone) => void;
+  // Zone to format a timestamp with, given the offset its record was written in
+  zoneFor: (sourceOffsetMinutes?: number) => ZoneSpec;
+}
+
+export const TimeZoneContext = createContext<TimeZoneContextType | undefined>(undefined);
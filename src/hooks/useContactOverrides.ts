@@ -0,0 +1,86 @@
+import { useCallback, useMemo, useState } from 'react';
+import type { ContactOverrides, ProcessedData } from '../types';
+import {
+  applyContactOverrides,
+  getDatasetKey,
+  getSplitContactId,
+  loadContactOverrides,
+  saveContactOverrides,
+} from '../utils/contactOverrides';
+
+// Manual merges and splits of conversations, applied on top of the imported
+// data and remembered in localStorage for the same exports
+export function useContactOverrides(data: ProcessedData) {
+  const datasetKey = useMemo(() => getDatasetKey(data), [data]);
+  const [saved, setSaved] = useState<{ datasetKey: string; overrides: ContactOverrides } | null>(null);
+
+  // A new dataset starts from whatever was saved for it
+  const overrides = useMemo(
+    () => saved?.datasetKey === datasetKey ? saved.overrides : loadContactOverrides(datasetKey),
+    [saved, datasetKey]
+  );
+
+  const updateOverrides = useCallback((update: (current: ContactOverrides) => ContactOverrides) => {
+    const next = update(overrides);
+    saveContactOverrides(datasetKey, next);
+    setSaved({ datasetKey, overrides: next });
+  }, [overrides, datasetKey]);
+
+  const effectiveData = useMemo(() => applyContactOverrides(data, overrides), [data, overrides]);
+
+  // Every other conversation is merged into targetId, along with anything
+  // that had been merged into them
+  const mergeContacts = useCallback((contactIds: string[], targetId: string) => {
+    updateOverrides(current => {
+      const sources = new Set(contactIds.filter(contactId => contactId !== targetId));
+      const merges: Record<string, string> = {};
+      Object.entries(current.merges).forEach(([from, to]) => {
+        if (from !== targetId) merges[from] = sources.has(to) ? targetId : to;
+      });
+      sources.forEach(contactId => {
+        merges[contactId] = targetId;
+      });
+      return { ...current, merges };
+    });
+  }, [updateOverrides]);
+
+  const unmergeContact = useCallback((contactId: string) => {
+    updateOverrides(current => {
+      const merges = { ...current.merges };
+      delete merges[contactId];
+      return { ...current, merges };
+    });
+  }, [updateOverrides]);
+
+  const splitNumber = useCallback((rawPhone: string) => {
+    updateOverrides(current => current.splits.includes(rawPhone)
+      ? current
+      : { ...current, splits: [...current.splits, rawPhone] }
+    );
+  }, [updateOverrides]);
+
+  // Merges into or out of the split conversation go with it
+  const rejoinNumber = useCallback((rawPhone: string) => {
+    const splitId = getSplitContactId(rawPhone);
+    updateOverrides(current => ({
+      merges: Object.fromEntries(
+        Object.entries(current.merges).filter(([from, to]) => from !== splitId && to !== splitId)
+      ),
+      splits: current.splits.filter(split => split !== rawPhone),
+    }));
+  }, [updateOverrides]);
+
+  const resetOverrides = useCallback(() => {
+    updateOverrides(() => ({ merges: {}, splits: [] }));
+  }, [updateOverrides]);
+
+  return {
+    data: effectiveData,
+    overrides,
+    mergeContacts,
+    unmergeContact,
+    splitNumber,
+    rejoinNumber,
+    resetOverrides,
+  };
+}
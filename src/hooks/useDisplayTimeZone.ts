@@ -0,0 +1,10 @@
+import { useContext } from 'react';
+import { TimeZoneContext } from '../contexts/timezone';
+
+export function useDisplayTimeZone() {
+  const context = useContext(TimeZoneContext);
+  if (context === undefined) {
+    throw new Error('useDisplayTimeZone must be used within a TimeZoneProvider');
+  }
+  return context;
+}
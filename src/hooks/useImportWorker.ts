@@ -0,0 +1,125 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type {
+  CalendarEvent,
+  Contact,
+  DataQualityReport,
+  ImportProgress,
+  ImportSource,
+  Message,
+  ProcessedData,
+} from '../types';
+
+type PendingImport = {
+  id: number;
+  messagesByContact: Map<string, Message[]>;
+  resolve: (data: ProcessedData) => void;
+  reject: (error: Error) => void;
+};
+
+export function useImportWorker() {
+  const workerRef = useRef<Worker | null>(null);
+  const pendingRef = useRef<PendingImport | null>(null);
+  const nextIdRef = useRef(0);
+  const [progress, setProgress] = useState<ImportProgress | null>(null);
+
+  useEffect(() => {
+    workerRef.current = new Worker(
+      new URL('../workers/import.worker.ts', import.meta.url),
+      { type: 'module' }
+    );
+
+    const handleMessage = (e: MessageEvent) => {
+      if (!e || !e.data) return;
+      const pending = pendingRef.current;
+      // Ignore messages from an import that has since been replaced
+      if (!pending || e.data.id !== pending.id) return;
+
+      switch (e.data.type) {
+        case 'progress': {
+          const { phase, loaded, total, source } = e.data as ImportProgress;
+          setProgress({ phase, loaded, total, source });
+          break;
+        }
+        case 'chunk': {
+          const { entries } = e.data as { entries: [string, Message[]][] };
+          entries.forEach(([contactId, messages]) => {
+            pending.messagesByContact.set(contactId, messages);
+          });
+          break;
+        }
+        case 'done': {
+          const { sources, contacts, calendarEvents, qualityReport } = e.data as {
+            sources: string[];
+            contacts: Contact[];
+            calendarEvents: CalendarEvent[];
+            qualityReport: DataQualityReport;
+          };
+          pendingRef.current = null;
+          setProgress(null);
+          pending.resolve({
+            sources,
+            contacts,
+            messagesByContact: pending.messagesByContact,
+            calendarEvents,
+            qualityReport,
+          });
+          break;
+        }
+        case 'error': {
+          pendingRef.current = null;
+          setProgress(null);
+          pending.reject(new Error(e.data.message || 'Failed to import data'));
+          break;
+        }
+      }
+    };
+
+    const handleError = (e: ErrorEvent) => {
+      const pending = pendingRef.current;
+      pendingRef.current = null;
+      setProgress(null);
+      pending?.reject(new Error(e.message || 'Import worker failed'));
+    };
+
+    workerRef.current.addEventListener('message', handleMessage);
+    workerRef.current.addEventListener('error', handleError);
+
+    return () => {
+      workerRef.current?.removeEventListener('message', handleMessage);
+      workerRef.current?.removeEventListener('error', handleError);
+      workerRef.current?.terminate();
+      workerRef.current = null;
+      pendingRef.current = null;
+    };
+  }, []);
+
+  // All sources are merged into one dataset. Starting a new import supersedes
+  // any import still running; the superseded promise is left unsettled so its
+  // caller cannot overwrite the newer result.
+  const importData = useCallback((sources: ImportSource[], region: string): Promise<ProcessedData> => {
+    return new Promise((resolve, reject) => {
+      if (!workerRef.current) {
+        reject(new Error('Import worker is not available'));
+        return;
+      }
+
+      const id = ++nextIdRef.current;
+      pendingRef.current = {
+        id,
+        messagesByContact: new Map(),
+        resolve,
+        reject,
+      };
+      setProgress({ phase: 'reading', loaded: 0, total: 0 });
+
+      // Relative URLs must resolve against the page, not the worker script
+      const resolvedSources = sources.map((source): ImportSource => source.kind === 'url'
+        ? { kind: 'url', url: new URL(source.url, window.location.href).href }
+        : source
+      );
+      workerRef.current.postMessage({ type: 'import', id, sources: resolvedSources, region });
+    });
+  }, []);
+
+  return { importData, progress };
+}
@@ -0,0 +1,6 @@
+import { useContext } from 'react';
+import { MediaContext } from '../contexts/media';
+
+export function useMedia() {
+  return useContext(MediaContext);
+}
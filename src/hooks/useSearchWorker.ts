@@ -1,14 +1,21 @@
 import { useCallback, useEffect, useRef, useState } from 'react';
+import type { SearchIndexContact, SearchOptions, SearchResults } from '../types';
+import type { DisplayTimeZone } from '../utils/timeZoneUtils';
 
-interface SearchIndexItem {
-  contactId: string;
-  text: string;
-}
+const EMPTY_RESULTS: SearchResults = { contactIds: [], hits: [] };
+const SEARCH_TIMEOUT_MS = 5000;
 
 export function useSearchWorker() {
   const workerRef = useRef<Worker | null>(null);
   const [isSearching, setIsSearching] = useState(false);
-  const resolversRef = useRef<Map<number, (results: string[]) => void>>(new Map());
+  // True from init until the worker has built the latest index
+  const [isIndexing, setIsIndexing] = useState(false);
+  const isIndexingRef = useRef(false);
+  // Id of the latest init; a 'ready' for an older one is stale
+  const indexGenerationRef = useRef(0);
+  const resolversRef = useRef<Map<number, (results: SearchResults) => void>>(new Map());
+  // Timeouts of searches sent while indexing, started once the index is ready
+  const pendingTimeoutsRef = useRef<(() => void)[]>([]);
   const nextIdRef = useRef(0);
 
   useEffect(() => {
@@ -19,11 +26,19 @@ export function useSearchWorker() {
 
     const handleMessage = (e: MessageEvent) => {
       if (!e || !e.data) return;
+      if (e.data.type === 'ready') {
+        if (e.data.generation !== indexGenerationRef.current) return;
+        isIndexingRef.current = false;
+        setIsIndexing(false);
+        pendingTimeoutsRef.current.forEach((startTimeout) => startTimeout());
+        pendingTimeoutsRef.current = [];
+        return;
+      }
       if (e.data.type === 'result') {
-        const { id, results } = e.data as { id: number; results: string[] };
+        const { id, results } = e.data as { id: number; results: SearchResults };
         const resolver = resolversRef.current.get(id);
         if (resolver) {
-          resolver(Array.isArray(results) ? results : []);
+          resolver(results ?? EMPTY_RESULTS);
           resolversRef.current.delete(id);
         }
         // If no more pending requests, clear searching flag
@@ -35,9 +50,12 @@ export function useSearchWorker() {
 
     const handleError = () => {
       // Fail-safe: reject all pending resolvers on error
-      resolversRef.current.forEach((resolve) => resolve([]));
+      resolversRef.current.forEach((resolve) => resolve(EMPTY_RESULTS));
       resolversRef.current.clear();
+      pendingTimeoutsRef.current = [];
+      isIndexingRef.current = false;
       setIsSearching(false);
+      setIsIndexing(false);
     };
 
     workerRef.current.addEventListener('message', handleMessage);
@@ -50,15 +68,22 @@ export function useSearchWorker() {
     };
   }, []);
 
-  const initIndex = useCallback((searchIndex: SearchIndexItem[]) => {
+  const initIndex = useCallback((searchIndex: SearchIndexContact[], region: string) => {
     if (!workerRef.current) return;
-    workerRef.current.postMessage({ type: 'init', searchIndex });
+    const generation = ++indexGenerationRef.current;
+    isIndexingRef.current = true;
+    setIsIndexing(true);
+    workerRef.current.postMessage({ type: 'init', generation, searchIndex, region });
   }, []);
 
-  const search = useCallback((query: string): Promise<string[]> => {
+  const search = useCallback((
+    query: string,
+    options: SearchOptions,
+    timeZone: DisplayTimeZone
+  ): Promise<SearchResults> => {
     return new Promise((resolve) => {
       if (!workerRef.current) {
-        resolve([]);
+        resolve(EMPTY_RESULTS);
         return;
       }
 
@@ -66,26 +91,36 @@ export function useSearchWorker() {
       const id = ++nextIdRef.current;
       resolversRef.current.set(id, resolve);
 
-      // Timeout safety to avoid stuck state
-      const timeoutId = window.setTimeout(() => {
-        if (resolversRef.current.has(id)) {
-          resolversRef.current.delete(id);
-          resolve([]);
-          if (resolversRef.current.size === 0) {
-            setIsSearching(false);
+      // Timeout safety to avoid stuck state. The worker answers in order,
+      // so a search sent while indexing waits for the index first and its
+      // timeout only starts once the index is ready.
+      let timeoutId: number | undefined;
+      const startTimeout = () => {
+        timeoutId = window.setTimeout(() => {
+          if (resolversRef.current.has(id)) {
+            resolversRef.current.delete(id);
+            resolve(EMPTY_RESULTS);
+            if (resolversRef.current.size === 0) {
+              setIsSearching(false);
+            }
           }
-        }
-      }, 5000);
+        }, SEARCH_TIMEOUT_MS);
+      };
+      if (isIndexingRef.current) {
+        pendingTimeoutsRef.current.push(startTimeout);
+      } else {
+        startTimeout();
+      }
 
-      const wrappedResolve = (results: string[]) => {
+      const wrappedResolve = (results: SearchResults) => {
         window.clearTimeout(timeoutId);
         resolve(results);
       };
       resolversRef.current.set(id, wrappedResolve);
 
-      workerRef.current.postMessage({ type: 'search', id, query });
+      workerRef.current.postMessage({ type: 'search', id, query, options, timeZone });
     });
   }, []);
 
-  return { initIndex, search, isSearching };
+  return { initIndex, search, isSearching, isIndexing };
 }
\ No newline at end of file
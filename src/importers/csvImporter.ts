@@ -0,0 +1,133 @@
+import type { DataRecord } from "../types";
+import type { RecordImporter } from "./index";
+import { detectDelimiter, findColumn, parseCsv } from "../utils/csvUtils";
+import { findMessagingApp } from "../utils/channelUtils";
+import {
+  buildParty,
+  cleanPhoneValue,
+  createDataRecord,
+  formatRecordDuration,
+  normalizeTimestampValue,
+  parseDirection,
+} from "./shared";
+
+// Header aliases, compared after normalizeHeader
+const COLUMNS = {
+  id: ["id", "recordid", "messageid", "index", "no"],
+  timestamp: ["timestamp", "datetime", "dateandtime", "date", "sentdate", "receiveddate", "time"],
+  time: ["time"],
+  phone: ["phone", "phonenumber", "number", "address", "party", "remoteparty", "contactnumber", "msisdn"],
+  from: ["from", "sender"],
+  to: ["to", "recipient", "recipients"],
+  name: ["name", "contactname", "contact", "displayname"],
+  body: ["body", "message", "text", "content", "description", "messagebody", "messagetext"],
+  direction: ["direction", "folder", "box", "msgbox", "calltype"],
+  type: ["recordtype", "category", "kind", "type", "source", "application", "app"],
+  attachments: ["attachments", "attachment", "media", "files"],
+  locations: ["locations", "location", "coordinates"],
+  deleted: ["deleted", "deletedstate", "isdeleted"],
+  duration: ["duration", "durationseconds", "callduration"],
+};
+
+type ColumnIndexes = { [K in keyof typeof COLUMNS]: number };
+
+const resolveColumns = (headers: string[]): ColumnIndexes => {
+  const indexes = {} as ColumnIndexes;
+  (Object.keys(COLUMNS) as (keyof typeof COLUMNS)[]).forEach((key) => {
+    indexes[key] = findColumn(headers, COLUMNS[key]);
+  });
+  // A lone "time" column is the timestamp, not a separate time-of-day field
+  if (indexes.time === indexes.timestamp) indexes.time = -1;
+  return indexes;
+};
+
+const classifyType = (value: string): DataRecord["Type"] => {
+  const normalized = value.toLowerCase();
+  if (normalized.includes("call")) return "Call Log";
+  if (normalized.includes("calendar")) return "Calendar";
+  if (/instant|chat/.test(normalized) || findMessagingApp(value)) {
+    return "Instant Messages";
+  }
+  return "SMS Messages";
+};
+
+const parseDurationSeconds = (value: string): number | null => {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  if (/^\d+$/.test(trimmed)) return parseInt(trimmed, 10);
+  const clock = trimmed.match(/^(?:(\d+):)?(\d{1,2}):(\d{2})$/);
+  if (clock) {
+    return (parseInt(clock[1] || "0", 10) * 3600) + parseInt(clock[2], 10) * 60 + parseInt(clock[3], 10);
+  }
+  return null;
+};
+
+const hasRequiredColumns = (columns: ColumnIndexes) =>
+  columns.timestamp !== -1 &&
+  (columns.phone !== -1 || columns.from !== -1 || columns.to !== -1) &&
+  (columns.body !== -1 || columns.duration !== -1);
+
+export const csvImporter: RecordImporter = {
+  id: "csv",
+  label: "CSV export",
+  extensions: [".csv", ".tsv", ".txt"],
+  detect: (text) => {
+    const headerLine = text.slice(0, text.search(/\r?\n|$/));
+    const headers = headerLine.split(detectDelimiter(text)).map((h) => h.replace(/^"|"$/g, ""));
+    return headers.length > 1 && hasRequiredColumns(resolveColumns(headers));
+  },
+  parse: (text) => {
+    const [headers, ...rows] = parseCsv(text);
+    if (!headers) throw new Error("CSV file is empty");
+
+    const columns = resolveColumns(headers);
+    if (!hasRequiredColumns(columns)) {
+      throw new Error("CSV needs a date column, a phone/from/to column and a message column");
+    }
+
+    const cell = (row: string[], index: number) => (index === -1 ? "" : (row[index] || "").trim());
+
+    return rows.map((row, rowIndex) => {
+      // "Type" holds the direction in some tools ("Incoming"/"Outgoing")
+      const typeValue = cell(row, columns.type);
+      const directionValue = cell(row, columns.direction) || typeValue;
+      const direction = parseDirection(directionValue);
+      const recordType = typeValue ? classifyType(typeValue) : columns.body === -1 ? "Call Log" : classifyType(directionValue);
+      // "WhatsApp" or "WhatsApp call" in the type column names the app
+      const app = recordType !== "SMS Messages" ? findMessagingApp(typeValue) : undefined;
+
+      // With separate From/To columns the counterpart is on the other side of our direction
+      let phone = cell(row, columns.phone);
+      if (!phone) {
+        phone = direction === "To" ? cell(row, columns.to) : cell(row, columns.from);
+        if (!phone) phone = cell(row, columns.from) || cell(row, columns.to);
+      }
+
+      const timestamp = columns.time !== -1
+        ? `${cell(row, columns.timestamp)} ${cell(row, columns.time)}`
+        : cell(row, columns.timestamp);
+
+      let description = cell(row, columns.body);
+      if (recordType === "Call Log" && !description) {
+        const seconds = parseDurationSeconds(cell(row, columns.duration));
+        const label = directionValue || (direction === "To" ? "Outgoing" : "Incoming");
+        description = seconds !== null
+          ? `${label} call, duration ${formatRecordDuration(seconds)}`
+          : `${label} call`;
+      }
+
+      return createDataRecord({
+        ID: cell(row, columns.id) || String(rowIndex + 1),
+        Type: recordType,
+        Direction: direction,
+        Attachments: cell(row, columns.attachments),
+        Locations: cell(row, columns.locations),
+        Timestamp: normalizeTimestampValue(timestamp),
+        Party: buildParty(direction, cleanPhoneValue(phone), cell(row, columns.name)),
+        Description: description,
+        Deleted: cell(row, columns.deleted),
+        ...(app && { App: app }),
+      });
+    });
+  },
+};
@@ -0,0 +1,50 @@
+import type { UnifiedRecord } from "../types";
+import { jsonImporter } from "./jsonImporter";
+import { smsBackupXmlImporter } from "./smsBackupXmlImporter";
+import { csvImporter } from "./csvImporter";
+
+// An importer recognises one file format and maps it onto UnifiedRecord
+export interface RecordImporter {
+  id: string;
+  label: string;
+  // Lowercase extensions including the dot, used to try the likely importer first
+  extensions: string[];
+  detect: (text: string, fileName?: string) => boolean;
+  parse: (text: string) => UnifiedRecord[];
+}
+
+// Order matters: the first importer whose detect() matches wins
+export const importers: RecordImporter[] = [
+  jsonImporter,
+  smsBackupXmlImporter,
+  csvImporter,
+];
+
+export const ACCEPTED_FILE_TYPES = [
+  "application/json",
+  "text/csv",
+  "text/xml",
+  "application/xml",
+  ...new Set(importers.flatMap((importer) => importer.extensions)),
+].join(",");
+
+export const findImporter = (text: string, fileName?: string): RecordImporter | null => {
+  const extension = fileName?.toLowerCase().match(/\.[a-z0-9]+$/)?.[0];
+  const byExtension = extension
+    ? importers.filter((importer) => importer.extensions.includes(extension))
+    : [];
+  const candidates = [...byExtension, ...importers.filter((importer) => !byExtension.includes(importer))];
+  return candidates.find((importer) => importer.detect(text, fileName)) || null;
+};
+
+export const importRecords = (text: string, fileName?: string): UnifiedRecord[] => {
+  const importer = findImporter(text, fileName);
+  if (!importer) {
+    throw new Error(
+      `Unrecognised file format${fileName ? ` for ${fileName}` : ""}. Supported: ${importers
+        .map((i) => i.label)
+        .join(", ")}`
+    );
+  }
+  return importer.parse(text);
+};
@@ -0,0 +1,31 @@
+import type { UnifiedRecord } from "../types";
+import type { RecordImporter } from "./index";
+
+// Check if the first record has the DataRecord or legacy SMSRecord shape
+export const isUnifiedRecordArray = (data: unknown): data is UnifiedRecord[] => {
+  if (!Array.isArray(data) || data.length === 0) return false;
+  const first = data[0];
+  if (!first || typeof first !== "object") return false;
+  const record = first as Record<string, unknown>;
+
+  return (
+    // New format check
+    ("ID" in record && "Type" in record && "Description" in record) ||
+    // Legacy format check
+    ("party" in record && "message" in record)
+  );
+};
+
+export const jsonImporter: RecordImporter = {
+  id: "json",
+  label: "JSON export",
+  extensions: [".json"],
+  detect: (text) => /^\s*\[/.test(text),
+  parse: (text) => {
+    const data: unknown = JSON.parse(text);
+    if (!isUnifiedRecordArray(data)) {
+      throw new Error("JSON does not contain SMS or DataRecord entries");
+    }
+    return data;
+  },
+};
@@ -0,0 +1,70 @@
+import type { DataRecord } from "../types";
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+// Write an instant in the DataRecord Timestamp format, "13/06/2014 21:15:08(UTC+0)"
+export const formatRecordTimestamp = (date: Date): string =>
+  `${pad(date.getUTCDate())}/${pad(date.getUTCMonth() + 1)}/${date.getUTCFullYear()} ` +
+  `${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())}(UTC+0)`;
+
+// Accept the many date shapes found in third-party exports and return a
+// Timestamp string the message pipeline understands (empty when unparseable)
+export const normalizeTimestampValue = (value: string): string => {
+  const trimmed = (value || "").trim();
+  if (!trimmed) return "";
+
+  // Already day-first ("13/06/2014 21:15:08", optionally with a zone suffix)
+  if (/^\d{1,2}\/\d{1,2}\/\d{4}\s+\d{1,2}:\d{1,2}/.test(trimmed)) return trimmed;
+
+  // Unix epoch in seconds or milliseconds
+  if (/^\d{10}(\d{3})?$/.test(trimmed)) {
+    const epoch = parseInt(trimmed, 10);
+    return formatRecordTimestamp(new Date(trimmed.length === 10 ? epoch * 1000 : epoch));
+  }
+
+  const parsed = new Date(trimmed);
+  return isNaN(parsed.getTime()) ? trimmed : formatRecordTimestamp(parsed);
+};
+
+// Map the direction vocabulary of different tools onto From (incoming) / To (outgoing)
+export const parseDirection = (value: string): DataRecord["Direction"] => {
+  const normalized = (value || "").trim().toLowerCase();
+  if (!normalized) return "";
+  if (/^(in|incoming|inbox|received?|from|1|missed|rejected)\b/.test(normalized)) return "From";
+  if (/^(out|outgoing|outbox|sent|to|2|dialed|dialled)\b/.test(normalized)) return "To";
+  return "";
+};
+
+// Seconds as "00:01:05", the way call log descriptions write a duration
+export const formatRecordDuration = (totalSeconds: number): string => {
+  const seconds = Math.max(0, Math.round(totalSeconds));
+  return `${pad(Math.floor(seconds / 3600))}:${pad(Math.floor((seconds % 3600) / 60))}:${pad(seconds % 60)}`;
+};
+
+// Strip formatting so the number survives extractPhoneFromParty
+export const cleanPhoneValue = (value: string): string =>
+  (value || "").trim().replace(/[\s\-().]/g, "");
+
+export const buildParty = (
+  direction: DataRecord["Direction"],
+  phone: string,
+  name?: string
+): string => {
+  if (!phone) return "";
+  const label = direction === "To" ? "To:" : "From:";
+  const cleanName = (name || "").trim();
+  return cleanName ? `${label} ${phone} ${cleanName}` : `${label} ${phone}`;
+};
+
+export const createDataRecord = (fields: Partial<DataRecord>): DataRecord => ({
+  ID: "",
+  Type: "SMS Messages",
+  Direction: "",
+  Attachments: "",
+  Locations: "",
+  Timestamp: "",
+  Party: "",
+  Description: "",
+  Deleted: "",
+  ...fields,
+});
@@ -0,0 +1,157 @@
+import type { DataRecord } from "../types";
+import type { RecordImporter } from "./index";
+import {
+  buildParty,
+  cleanPhoneValue,
+  createDataRecord,
+  formatRecordDuration,
+  formatRecordTimestamp,
+} from "./shared";
+
+// Android "SMS Backup & Restore" writes <smses> (sms + mms) and <calls> files.
+// Parsed with regular expressions rather than DOMParser so it also runs in workers.
+
+const decodeEntities = (value: string): string =>
+  value.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (_, entity: string) => {
+    const lower = entity.toLowerCase();
+    if (lower === "amp") return "&";
+    if (lower === "lt") return "<";
+    if (lower === "gt") return ">";
+    if (lower === "quot") return '"';
+    if (lower === "apos") return "'";
+    const codePoint = lower.startsWith("#x")
+      ? parseInt(lower.slice(2), 16)
+      : parseInt(lower.slice(1), 10);
+    return isNaN(codePoint) ? "" : String.fromCodePoint(codePoint);
+  });
+
+const parseAttributes = (tag: string): Record<string, string> => {
+  const attributes: Record<string, string> = {};
+  const pattern = /([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(tag)) !== null) {
+    attributes[match[1]] = decodeEntities(match[2] ?? match[3] ?? "");
+  }
+  return attributes;
+};
+
+const timestampFromEpoch = (value: string): string => {
+  const epoch = parseInt(value, 10);
+  return isNaN(epoch) ? "" : formatRecordTimestamp(new Date(epoch));
+};
+
+// "(Unknown)" and "null" are placeholders, not names
+const cleanContactName = (value: string | undefined): string => {
+  const name = (value || "").trim();
+  return name && name !== "(Unknown)" && name !== "null" ? name : "";
+};
+
+// sms "type": 1 inbox, 2 sent, 3 draft, 4 outbox, 5 failed, 6 queued
+const smsDirection = (type: string): DataRecord["Direction"] =>
+  type === "1" ? "From" : type ? "To" : "";
+
+// call "type": 1 incoming, 2 outgoing, 3 missed, 4 voicemail, 5 rejected, 6 blocked
+const CALL_LABELS: Record<string, string> = {
+  "1": "Incoming",
+  "2": "Outgoing",
+  "3": "Missed",
+  "4": "Voicemail",
+  "5": "Rejected",
+  "6": "Blocked",
+};
+
+const parseSms = (tag: string, index: number): DataRecord => {
+  const attributes = parseAttributes(tag);
+  const direction = smsDirection(attributes.type);
+  return createDataRecord({
+    ID: String(index + 1),
+    Type: "SMS Messages",
+    Direction: direction,
+    Timestamp: timestampFromEpoch(attributes.date),
+    Party: buildParty(direction, cleanPhoneValue(attributes.address), cleanContactName(attributes.contact_name)),
+    Description: attributes.body && attributes.body !== "null" ? attributes.body : "",
+  });
+};
+
+const parseMms = (tag: string, body: string, index: number): DataRecord => {
+  const attributes = parseAttributes(tag);
+  // msg_box: 1 inbox, 2 sent
+  const direction: DataRecord["Direction"] = attributes.msg_box === "1" ? "From" : "To";
+
+  const texts: string[] = [];
+  const files: string[] = [];
+  for (const partMatch of body.matchAll(/<part\b([^>]*?)\/?>/g)) {
+    const part = parseAttributes(partMatch[1]);
+    if (part.ct === "application/smil") continue;
+    if (part.ct === "text/plain" && part.text && part.text !== "null") {
+      texts.push(part.text);
+    } else if (part.cl || part.name) {
+      files.push(part.cl && part.cl !== "null" ? part.cl : part.name);
+    }
+  }
+
+  // addr type 137 is the sender, 151 the recipients
+  let address = attributes.address || "";
+  for (const addrMatch of body.matchAll(/<addr\b([^>]*?)\/?>/g)) {
+    const addr = parseAttributes(addrMatch[1]);
+    if ((direction === "From" && addr.type === "137") || (direction === "To" && addr.type === "151")) {
+      address = addr.address;
+      break;
+    }
+  }
+
+  return createDataRecord({
+    ID: String(index + 1),
+    Type: "SMS Messages",
+    Direction: direction,
+    Timestamp: timestampFromEpoch(attributes.date),
+    Party: buildParty(direction, cleanPhoneValue(address.split("~")[0]), cleanContactName(attributes.contact_name)),
+    Description: texts.join("\n"),
+    Attachments: files.join("\n"),
+  });
+};
+
+const parseCall = (tag: string, index: number): DataRecord => {
+  const attributes = parseAttributes(tag);
+  const label = CALL_LABELS[attributes.type] || "Unknown";
+  const direction: DataRecord["Direction"] = attributes.type === "2" ? "To" : "From";
+  const seconds = parseInt(attributes.duration, 10);
+  const answered = attributes.type === "1" || attributes.type === "2";
+
+  return createDataRecord({
+    ID: String(index + 1),
+    Type: "Call Log",
+    Direction: direction,
+    Timestamp: timestampFromEpoch(attributes.date),
+    Party: buildParty(direction, cleanPhoneValue(attributes.number), cleanContactName(attributes.contact_name)),
+    Description: answered && !isNaN(seconds)
+      ? `${label} call, duration ${formatRecordDuration(seconds)}`
+      : `${label} call`,
+  });
+};
+
+export const smsBackupXmlImporter: RecordImporter = {
+  id: "sms-backup-xml",
+  label: "SMS Backup & Restore XML",
+  extensions: [".xml"],
+  detect: (text) => /<(smses|calls)\b/.test(text.slice(0, 4096)),
+  parse: (text) => {
+    const records: DataRecord[] = [];
+    // Elements are matched in document order so IDs follow the file
+    const pattern = /<sms\b([^>]*?)\/?>|<mms\b([^>]*)>([\s\S]*?)<\/mms>|<call\b([^>]*?)\/?>/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text)) !== null) {
+      if (match[1] !== undefined) {
+        records.push(parseSms(match[1], records.length));
+      } else if (match[2] !== undefined) {
+        records.push(parseMms(match[2], match[3], records.length));
+      } else if (match[4] !== undefined) {
+        records.push(parseCall(match[4], records.length));
+      }
+    }
+    if (records.length === 0) {
+      throw new Error("XML file contains no <sms>, <mms> or <call> entries");
+    }
+    return records;
+  },
+};
@@ -3,11 +3,14 @@ import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
 import { ThemeProvider } from './contexts/ThemeContext.tsx'
+import { TimeZoneProvider } from './contexts/TimeZoneContext.tsx'
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
     <ThemeProvider>
-      <App />
+      <TimeZoneProvider>
+        <App />
+      </TimeZoneProvider>
     </ThemeProvider>
   </StrictMode>,
 )
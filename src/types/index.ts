@@ -1,14 +1,31 @@
+export type DataQualityIssueType = 'invalid_timestamp' | 'missing_field' | 'invalid_date' | 'empty_value' | 'invalid_format';
+
 export interface DataQualityIssue {
-  type: 'invalid_timestamp' | 'missing_field' | 'invalid_date' | 'empty_value' | 'invalid_format';
+  type: DataQualityIssueType;
+  // 'skipped' records never became a message, 'repaired' ones were imported with a fallback value
+  action: 'skipped' | 'repaired';
   field: string;
   value: unknown;
+  // Position of the record within its source
   index?: number;
+  recordId?: string;
+  // File or URL the record was read from
+  source?: string;
+  // Set when the record could be tied to a conversation
+  contactId?: string;
+  messageId?: number;
   message: string;
 }
 
 export interface DataQualityReport {
   totalRecords: number;
   validRecords: number;
+  skippedRecords: number;
+  repairedRecords: number;
+  // Records of a type the importer does not display (e.g. Notes)
+  ignoredRecords: number;
+  // Records already imported from another source and merged into that message
+  duplicateRecords: number;
   issues: DataQualityIssue[];
 }
 
@@ -47,29 +64,226 @@ export interface DataRecord {
   Party: string; // Format: "From: +9607781405" or "" for calendar
   Description: string; // Message content or event description
   Deleted: string;
+  // Messaging app of Instant Messages and app calls, when the export names it
+  App?: string;
+  // Conversation the record belongs to, when the export has one
+  ThreadID?: string;
 }
 
 // Union type for both old and new formats
 export type UnifiedRecord = SMSRecord | DataRecord;
 
+// What a contact's phone field turned out to be. Short codes and sender
+// IDs are services, never merged with a subscriber number.
+export type PhoneNumberKind = 'number' | 'shortCode' | 'senderId' | 'unknown';
+
 export interface Contact {
   phone: string;
   name: string;
+  // E.164 ("+9607781405") for numbers, see parsePhoneNumber
   normalizedPhone: string;
+  phoneKind: PhoneNumberKind;
   lastMessage: string;
   lastMessageTime: Date;
+  lastMessageUtcOffset?: number;
   messageCount: number;
+  deletedCount: number;
   isRead: boolean;
+  // Picture from an uploaded address book
+  photo?: string;
+  // Every name found for the number, the one in use first; only set when
+  // an address book lists it
+  nameCandidates?: ContactNameCandidate[];
+}
+
+export interface ContactNameCandidate {
+  name: string;
+  // Address book file name, or "export" for the name in the messages
+  source: string;
+}
+
+export interface CalendarEvent {
+  id: number;
+  recordId: string;
+  title: string;
+  details: string;
+  timestamp: Date;
+  utcOffset?: number;
+  location?: string;
+}
+
+export interface Attachment {
+  fileName: string;
+  mimeType: string;
+  // Path as written in the export, with forward slashes
+  path: string;
+}
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+  // Place name when the export gives one next to the coordinates
+  label?: string;
 }
 
 export type MessageStatus = 'sent' | 'delivered' | 'read' | 'failed';
 
+export type CallDirection = 'incoming' | 'outgoing';
+// 'unanswered' is an outgoing call nobody picked up; incoming ones are 'missed'
+export type CallStatus = 'answered' | 'missed' | 'unanswered' | 'rejected' | 'voicemail' | 'blocked' | 'unknown';
+
+// What a call log entry's description says about the call
+export interface CallInfo {
+  direction: CallDirection;
+  status: CallStatus;
+  // null when the record gives no duration
+  durationSeconds: number | null;
+}
+
+// How a message was exchanged: carrier SMS, an instant messaging app or a call
+export type MessageChannel = 'sms' | 'im' | 'call';
+
 export interface Message {
+  // Unique across the dataset, see recordId for the export's own ID
   id: number;
   text: string;
   timestamp: Date;
+  // Minutes east of UTC the record was written in, when the export says
+  utcOffset?: number;
   isFromMe: boolean;
   isRead: boolean;
   status?: MessageStatus;
   isCallLog?: boolean;
-}
\ No newline at end of file
+  channel: MessageChannel;
+  // "WhatsApp", "Viber"… when the record says which app it came from
+  app?: string;
+  // Set on call log entries
+  call?: CallInfo;
+  // Set when the record's Party had no number and its conversation was inferred
+  attribution?: MessageAttribution;
+  attachments?: Attachment[];
+  location?: GeoPoint;
+  // Recovered from deleted storage by the extraction tool
+  isDeleted?: boolean;
+  // Files or URLs the message was found in, in load order
+  sources: string[];
+  // ID of the record as written in the export, for display only. Sources
+  // reuse record IDs, so id is assigned in import order instead.
+  recordId: string;
+  // Number or sender as written in the export, before normalisation
+  rawPhone: string;
+}
+
+// How a record with an empty "From:" or "To:" was placed, see attributeOrphan
+export interface MessageAttribution {
+  // 0 to 1
+  confidence: number;
+  // Evidence for the chosen conversation
+  reasons: string[];
+  // Best candidate of a record left in the Unattributed conversation
+  suggestedContactId?: string;
+}
+
+// Manual corrections to how messages are grouped into conversations,
+// saved per dataset
+export interface ContactOverrides {
+  // Conversation id -> id of the conversation it was merged into
+  merges: Record<string, string>;
+  // Numbers, as written in the export, moved into a conversation of their own
+  splits: string[];
+}
+
+// One person from an uploaded vCard or CSV address book
+export interface AddressBookEntry {
+  name: string;
+  // As written in the file
+  phones: string[];
+  // Data URL or link
+  photo?: string;
+  // File the entry was read from
+  source: string;
+}
+
+// Records read from one file or URL
+export interface RecordBatch {
+  source: string;
+  records: UnifiedRecord[];
+}
+
+// Everything the UI needs from one import, produced by processMessagesData
+export interface ProcessedData {
+  // Labels of the loaded files or URLs, in load order
+  sources: string[];
+  contacts: Contact[];
+  messagesByContact: Map<string, Message[]>;
+  calendarEvents: CalendarEvent[];
+  qualityReport: DataQualityReport;
+}
+
+export type ImportPhase = 'reading' | 'processing' | 'transferring';
+
+export interface ImportProgress {
+  phase: ImportPhase;
+  // Bytes for 'reading', records for 'processing', contacts for 'transferring'
+  loaded: number;
+  // 0 when the size is not known up front
+  total: number;
+  // File or URL being read when several are loaded
+  source?: string;
+}
+
+export type ImportSource =
+  | { kind: 'file'; file: File }
+  | { kind: 'url'; url: string };
+
+// One message as the search worker sees it
+export interface SearchIndexMessage {
+  id: number;
+  text: string;
+  attachmentNames: string[];
+  timestamp: number;
+  // Minutes east of UTC the record was written in, when the export says
+  utcOffset?: number;
+  isFromMe: boolean;
+  isCallLog: boolean;
+  channel: MessageChannel;
+  isDeleted: boolean;
+  hasAttachments: boolean;
+  hasLocation: boolean;
+}
+
+export interface SearchIndexContact {
+  contactId: string;
+  name: string;
+  phone: string;
+  messages: SearchIndexMessage[];
+}
+
+// Optional ways of loosening how query words match; all off by default
+export interface SearchOptions {
+  // Allow a few typos, more for longer words
+  fuzzy: boolean;
+  // Ignore accents and other diacritics as well as case
+  foldDiacritics: boolean;
+  // Compare phone-like queries by their digits, as normalised numbers
+  phoneDigits: boolean;
+  // Also look for Latin words spelled in Thaana ("dhivehi" finds ދިވެހި)
+  transliterate: boolean;
+}
+
+// One matching message. highlights are [start, end) offsets into the
+// message text.
+export interface SearchHit {
+  contactId: string;
+  messageId: number;
+  score: number;
+  highlights: [number, number][];
+}
+
+export interface SearchResults {
+  // Matching conversations, best first; includes name or number matches
+  // that have no matching message
+  contactIds: string[];
+  // Best first
+  hits: SearchHit[];
+}
@@ -0,0 +1,245 @@
+import type { AddressBookEntry, Contact, ContactNameCandidate } from "../types";
+import { findColumn, normalizeHeader, parseCsv } from "./csvUtils";
+import { normalizePhoneNumber } from "./phoneUtils";
+
+// Source of the name written in the messages themselves
+export const EXPORT_NAME_SOURCE = "export";
+
+export const ADDRESS_BOOK_FILE_TYPES = ".vcf,.vcard,.csv,text/vcard,text/x-vcard,text/csv";
+
+interface VCardProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+// vCard 2.1 writes non-ASCII names as quoted-printable UTF-8 ("=C3=A9")
+const decodeQuotedPrintable = (value: string, charset = "utf-8"): string => {
+  const bytes: number[] = [];
+  for (let i = 0; i < value.length; i++) {
+    if (value[i] === "=" && /^[0-9A-F]{2}$/i.test(value.slice(i + 1, i + 3))) {
+      bytes.push(parseInt(value.slice(i + 1, i + 3), 16));
+      i += 2;
+    } else {
+      bytes.push(value.charCodeAt(i));
+    }
+  }
+  try {
+    return new TextDecoder(charset).decode(new Uint8Array(bytes));
+  } catch {
+    return new TextDecoder().decode(new Uint8Array(bytes));
+  }
+};
+
+const unescapeVCardValue = (value: string): string =>
+  value.replace(/\\([nN,;\\])/g, (_, char: string) => (char.toLowerCase() === "n" ? "\n" : char));
+
+// Splits "item1.TEL;TYPE=CELL:+960 778 1405" into name, params and value.
+// Bare vCard 2.1 params ("TEL;CELL") are kept as TYPE.
+const parseVCardLine = (line: string): VCardProperty | null => {
+  const colon = line.indexOf(":");
+  if (colon === -1) return null;
+  const [rawName, ...rawParams] = line.slice(0, colon).split(";");
+  const params: Record<string, string> = {};
+  rawParams.forEach((param) => {
+    const equals = param.indexOf("=");
+    if (equals === -1) params.TYPE = param.toUpperCase();
+    else params[param.slice(0, equals).toUpperCase()] = param.slice(equals + 1).replace(/^"|"$/g, "");
+  });
+  return {
+    name: rawName.replace(/^.*\./, "").toUpperCase(),
+    params,
+    value: line.slice(colon + 1),
+  };
+};
+
+// Continuation lines start with whitespace; quoted-printable values
+// instead end with a soft break "="
+const unfoldVCardLines = (text: string): string[] => {
+  const lines: string[] = [];
+  text.split(/\r?\n/).forEach((line) => {
+    const previous = lines[lines.length - 1];
+    if (previous !== undefined && /^[ \t]/.test(line)) {
+      lines[lines.length - 1] = previous + line.slice(1);
+    } else if (previous !== undefined && /QUOTED-PRINTABLE/i.test(previous) && previous.endsWith("=")) {
+      lines[lines.length - 1] = previous.slice(0, -1) + line;
+    } else {
+      lines.push(line);
+    }
+  });
+  return lines;
+};
+
+const getPropertyValue = (property: VCardProperty): string => {
+  if (property.params.ENCODING?.toUpperCase() === "QUOTED-PRINTABLE") {
+    return decodeQuotedPrintable(property.value, property.params.CHARSET);
+  }
+  return unescapeVCardValue(property.value);
+};
+
+const getPhoto = (property: VCardProperty): string | undefined => {
+  const value = property.value.trim();
+  if (/^(data:|https?:)/i.test(value)) return value;
+  const encoding = property.params.ENCODING?.toUpperCase();
+  if (encoding !== "B" && encoding !== "BASE64") return undefined;
+  const type = (property.params.TYPE || "JPEG").toLowerCase();
+  return `data:image/${type};base64,${value.replace(/\s/g, "")}`;
+};
+
+export const parseVCard = (text: string, source: string): AddressBookEntry[] => {
+  const entries: AddressBookEntry[] = [];
+  let current: { fullName: string; structuredName: string; org: string; phones: string[]; photo?: string } | null = null;
+
+  unfoldVCardLines(text).forEach((line) => {
+    const property = parseVCardLine(line.trim());
+    if (!property) return;
+
+    if (property.name === "BEGIN" && property.value.toUpperCase() === "VCARD") {
+      current = { fullName: "", structuredName: "", org: "", phones: [] };
+      return;
+    }
+    if (!current) return;
+
+    switch (property.name) {
+      case "FN":
+        current.fullName = getPropertyValue(property).trim();
+        break;
+      case "N": {
+        // Family;Given;Additional;Prefix;Suffix
+        const [family = "", given = "", additional = ""] = getPropertyValue(property).split(";");
+        current.structuredName = [given, additional, family].filter(Boolean).join(" ").trim();
+        break;
+      }
+      case "ORG":
+        current.org = getPropertyValue(property).split(";")[0].trim();
+        break;
+      case "TEL": {
+        // vCard 4 writes numbers as tel: URIs
+        const phone = getPropertyValue(property).replace(/^tel:/i, "").trim();
+        if (phone) current.phones.push(phone);
+        break;
+      }
+      case "PHOTO":
+        current.photo ??= getPhoto(property);
+        break;
+      case "END": {
+        const name = current.fullName || current.structuredName || current.org;
+        if (name && current.phones.length > 0) {
+          entries.push({
+            name,
+            phones: current.phones,
+            ...(current.photo && { photo: current.photo }),
+            source,
+          });
+        }
+        current = null;
+        break;
+      }
+    }
+  });
+
+  return entries;
+};
+
+const NAME_ALIASES = ["name", "fullname", "displayname", "contactname", "contact"];
+const FIRST_NAME_ALIASES = ["firstname", "givenname", "first"];
+const LAST_NAME_ALIASES = ["lastname", "familyname", "surname", "last"];
+const PHOTO_ALIASES = ["photo", "photourl", "picture", "avatar", "image"];
+// Any column about a number, but not its type or label ("Phone 1 - Type")
+const PHONE_HEADER = /phone|mobile|cell|tel|number/;
+const PHONE_META_HEADER = /type|label/;
+
+// One row per person; every phone-like column is read, and Google's
+// "a ::: b" cells hold several numbers
+export const parseAddressBookCsv = (text: string, source: string): AddressBookEntry[] => {
+  const [headers, ...rows] = parseCsv(text);
+  if (!headers) return [];
+
+  const nameColumn = findColumn(headers, NAME_ALIASES);
+  const firstNameColumn = findColumn(headers, FIRST_NAME_ALIASES);
+  const lastNameColumn = findColumn(headers, LAST_NAME_ALIASES);
+  const photoColumn = findColumn(headers, PHOTO_ALIASES);
+  const phoneColumns = headers
+    .map((header, index) => ({ header: normalizeHeader(header), index }))
+    .filter(({ header }) => PHONE_HEADER.test(header) && !PHONE_META_HEADER.test(header))
+    .map(({ index }) => index);
+
+  const entries: AddressBookEntry[] = [];
+  rows.forEach((cells) => {
+    const cell = (index: number) => (index === -1 ? "" : (cells[index] || "").trim());
+    const name = cell(nameColumn) ||
+      [cell(firstNameColumn), cell(lastNameColumn)].filter(Boolean).join(" ");
+    const phones = phoneColumns
+      .flatMap((index) => cell(index).split(/\s*:::\s*/))
+      .filter((phone) => /\d/.test(phone));
+    if (!name || phones.length === 0) return;
+    const photo = cell(photoColumn);
+    entries.push({ name, phones, ...(photo && { photo }), source });
+  });
+  return entries;
+};
+
+export const parseAddressBook = (text: string, fileName: string): AddressBookEntry[] => {
+  const entries = /BEGIN:VCARD/i.test(text)
+    ? parseVCard(text, fileName)
+    : parseAddressBookCsv(text, fileName);
+  if (entries.length === 0) throw new Error("No contacts with phone numbers found");
+  return entries;
+};
+
+// Names and photos from the address books for every contact whose number
+// is listed. Address book names win over names in the export, earlier
+// files over later ones; every name found is kept in nameCandidates.
+export const applyAddressBook = (
+  contacts: Contact[],
+  entries: AddressBookEntry[],
+  region: string
+): Contact[] => {
+  if (entries.length === 0) return contacts;
+
+  const entriesByPhone = new Map<string, AddressBookEntry[]>();
+  entries.forEach((entry) => {
+    new Set(entry.phones.map((phone) => normalizePhoneNumber(phone, region))).forEach((key) => {
+      if (!key) return;
+      const list = entriesByPhone.get(key) || [];
+      list.push(entry);
+      entriesByPhone.set(key, list);
+    });
+  });
+
+  return contacts.map((contact) => {
+    const keys = new Set([contact.normalizedPhone, normalizePhoneNumber(contact.phone, region)]);
+    const matches = new Set<AddressBookEntry>();
+    keys.forEach((key) => entriesByPhone.get(key)?.forEach((entry) => matches.add(entry)));
+    if (matches.size === 0) return contact;
+
+    const nameCandidates: ContactNameCandidate[] = [];
+    const addCandidate = (name: string, source: string) => {
+      if (!nameCandidates.some((candidate) => candidate.name === name && candidate.source === source)) {
+        nameCandidates.push({ name, source });
+      }
+    };
+    matches.forEach((entry) => addCandidate(entry.name, entry.source));
+    if (contact.name && contact.name !== "Unknown") addCandidate(contact.name, EXPORT_NAME_SOURCE);
+
+    const photo = Array.from(matches).find((entry) => entry.photo)?.photo;
+    return {
+      ...contact,
+      name: nameCandidates[0].name,
+      ...(photo && { photo }),
+      nameCandidates,
+    };
+  });
+};
+
+// Tooltip explaining where a contact's name came from, and the other names
+// found for it; null when the name is simply the one in the export
+export const describeNameSource = (contact: Contact): string | null => {
+  const [winner, ...others] = contact.nameCandidates || [];
+  if (!winner) return null;
+  const alternatives = others
+    .filter((candidate) => candidate.name !== winner.name)
+    .map((candidate) => `"${candidate.name}" (${candidate.source})`);
+  const description = `Name from ${winner.source}`;
+  return alternatives.length > 0 ? `${description}; also ${alternatives.join(", ")}` : description;
+};
@@ -0,0 +1,88 @@
+import type { Attachment } from "../types";
+
+const MIME_TYPES: Record<string, string> = {
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  png: "image/png",
+  gif: "image/gif",
+  webp: "image/webp",
+  bmp: "image/bmp",
+  heic: "image/heic",
+  heif: "image/heif",
+  svg: "image/svg+xml",
+  mp4: "video/mp4",
+  mov: "video/quicktime",
+  "3gp": "video/3gpp",
+  avi: "video/x-msvideo",
+  mkv: "video/x-matroska",
+  webm: "video/webm",
+  mp3: "audio/mpeg",
+  m4a: "audio/mp4",
+  aac: "audio/aac",
+  amr: "audio/amr",
+  ogg: "audio/ogg",
+  opus: "audio/opus",
+  wav: "audio/wav",
+  pdf: "application/pdf",
+  doc: "application/msword",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  xls: "application/vnd.ms-excel",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  ppt: "application/vnd.ms-powerpoint",
+  pptx: "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+  txt: "text/plain",
+  vcf: "text/vcard",
+  zip: "application/zip",
+};
+
+export const inferMimeType = (fileName: string): string => {
+  const match = fileName.toLowerCase().match(/\.([a-z0-9]+)$/);
+  if (!match) return "application/octet-stream";
+  return MIME_TYPES[match[1]] || "application/octet-stream";
+};
+
+export const isImageAttachment = (attachment: Attachment): boolean =>
+  attachment.mimeType.startsWith("image/");
+
+// Normalise a path for comparisons: forward slashes, no leading "./" or "/"
+export const normalizeMediaPath = (path: string): string =>
+  path
+    .replace(/\\/g, "/")
+    .replace(/^file:\/\//i, "")
+    .replace(/^(\.\/|\/)+/, "")
+    .toLowerCase();
+
+// Parse the raw Attachments field into structured entries.
+// Exports list one file per line or separate them with ";" or "|",
+// optionally prefixed with a label such as "Attachment: ".
+export const parseAttachments = (raw: string | undefined | null): Attachment[] => {
+  if (!raw || typeof raw !== "string") return [];
+
+  return raw
+    .split(/[\r\n;|]+/)
+    .map((entry) =>
+      entry
+        .trim()
+        .replace(/^(attachments?|file(name)?|path)\s*:\s*/i, "")
+        .replace(/^["']|["']$/g, "")
+        .trim()
+    )
+    .filter((entry) => entry.length > 0)
+    .map((entry) => {
+      const path = entry.replace(/\\/g, "/").replace(/^file:\/\//i, "");
+      const segments = path.split("/").filter(Boolean);
+      const fileName = segments[segments.length - 1] || path;
+      return {
+        fileName,
+        mimeType: inferMimeType(fileName),
+        path,
+      };
+    });
+};
+
+// Short human label for a list of attachments, used where only text fits
+export const describeAttachments = (attachments: Attachment[]): string => {
+  if (attachments.length === 0) return "";
+  if (attachments.length === 1) return `Attachment: ${attachments[0].fileName}`;
+  return `${attachments.length} attachments`;
+};
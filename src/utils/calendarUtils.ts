@@ -0,0 +1,80 @@
+import type { Message } from "../types";
+import { getDayKey } from "./messageUtils";
+import type { ZoneSpec } from "./timeZoneUtils";
+
+export interface DayActivity {
+  contactId: string;
+  messageCount: number;
+  firstMessageId: number;
+}
+
+// Map each day, in the display zone, to the conversations that have
+// messages on it
+export const buildMessageDayIndex = (
+  messagesByContact: Map<string, Message[]>,
+  zoneFor: (sourceOffsetMinutes?: number) => ZoneSpec
+): Map<string, DayActivity[]> => {
+  const index = new Map<string, Map<string, DayActivity>>();
+
+  messagesByContact.forEach((messages, contactId) => {
+    messages.forEach((message) => {
+      const dayKey = getDayKey(message.timestamp, zoneFor(message.utcOffset));
+      let contactsForDay = index.get(dayKey);
+      if (!contactsForDay) {
+        contactsForDay = new Map();
+        index.set(dayKey, contactsForDay);
+      }
+
+      const activity = contactsForDay.get(contactId);
+      if (activity) {
+        activity.messageCount++;
+      } else {
+        // Messages are sorted, so the first one seen is the earliest that day
+        contactsForDay.set(contactId, {
+          contactId,
+          messageCount: 1,
+          firstMessageId: message.id,
+        });
+      }
+    });
+  });
+
+  const result = new Map<string, DayActivity[]>();
+  index.forEach((contactsForDay, dayKey) => {
+    result.set(
+      dayKey,
+      Array.from(contactsForDay.values()).sort(
+        (a, b) => b.messageCount - a.messageCount
+      )
+    );
+  });
+  return result;
+};
+
+// One cell of a month grid. It names a calendar day, not an instant, so its
+// key compares with getDayKey in whatever zone the messages are shown in.
+export interface MonthGridDay {
+  dayKey: string;
+  day: number;
+  inMonth: boolean;
+}
+
+// Days shown in a month grid, padded with the trailing/leading days of the
+// neighbouring months so the grid always starts on a Sunday. Computed in
+// UTC so the viewer's own zone never shifts a cell.
+export const getMonthGridDays = (year: number, month: number): MonthGridDay[] => {
+  const firstWeekday = new Date(Date.UTC(year, month, 1)).getUTCDay();
+  const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  const cellCount = Math.ceil((firstWeekday + daysInMonth) / 7) * 7;
+
+  const days: MonthGridDay[] = [];
+  for (let i = 0; i < cellCount; i++) {
+    const date = new Date(Date.UTC(year, month, 1 - firstWeekday + i));
+    days.push({
+      dayKey: getDayKey(date, { timeZone: "UTC" }),
+      day: date.getUTCDate(),
+      inMonth: date.getUTCMonth() === month,
+    });
+  }
+  return days;
+};
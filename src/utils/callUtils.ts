@@ -0,0 +1,105 @@
+import type { CallInfo, CallStatus, Message } from "../types";
+
+const UNIT_SECONDS: Record<string, number> = { h: 3600, m: 60, s: 1 };
+
+// "duration 00:01:05", "lasted 1:05", "65 seconds", "1 min 5 sec", "1h 2m",
+// "duration 65". A clock value needs a label, as "Missed call at 14:05" is
+// the time of day and not a duration.
+export const parseCallDuration = (text: string): number | null => {
+  const clock = text.match(/\b(?:duration|lasted|length|talk(?:\s*time)?)\W*(?:(\d+):)?(\d{1,2}):(\d{2})\b/i);
+  if (clock) {
+    return parseInt(clock[1] || "0", 10) * 3600 + parseInt(clock[2], 10) * 60 + parseInt(clock[3], 10);
+  }
+
+  let total = 0;
+  let found = false;
+  for (const match of text.matchAll(/(\d+)\s*(h|hours?|hrs?|m|mins?|minutes?|s|secs?|seconds?)\b/gi)) {
+    total += parseInt(match[1], 10) * UNIT_SECONDS[match[2][0].toLowerCase()];
+    found = true;
+  }
+  if (found) return total;
+
+  const bare = text.match(/duration\W*(\d+)\b/i);
+  return bare ? parseInt(bare[1], 10) : null;
+};
+
+// Labels written by the importers and by phone extraction tools
+const STATUS_PATTERNS: [RegExp, CallStatus][] = [
+  [/missed/i, "missed"],
+  [/reject|declined/i, "rejected"],
+  [/voice\s*mail/i, "voicemail"],
+  [/blocked/i, "blocked"],
+  [/not answered|unanswered|no answer|cancel/i, "unanswered"],
+];
+
+// Reads a call log description such as "Incoming call, duration 00:01:05" or
+// "Missed call". The record's direction is used when the text has none.
+export const parseCallInfo = (description: string, isFromMe: boolean): CallInfo => {
+  const text = description || "";
+  const direction = /outgoing|dialled|dialed/i.test(text)
+    ? "outgoing"
+    : /incoming|received|missed/i.test(text)
+      ? "incoming"
+      : isFromMe ? "outgoing" : "incoming";
+  const durationSeconds = parseCallDuration(text);
+
+  let status = STATUS_PATTERNS.find(([pattern]) => pattern.test(text))?.[1];
+  if (!status) {
+    if (durationSeconds === null) status = "unknown";
+    else if (durationSeconds > 0) status = "answered";
+    // A call that never connected has no talk time
+    else status = direction === "incoming" ? "missed" : "unanswered";
+  }
+
+  return { direction, status, durationSeconds };
+};
+
+// "1:05", "1:02:05"
+export const formatCallDuration = (seconds: number): string => {
+  const pad = (value: number) => String(value).padStart(2, "0");
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  return hours > 0
+    ? `${hours}:${pad(minutes)}:${pad(seconds % 60)}`
+    : `${minutes}:${pad(seconds % 60)}`;
+};
+
+const STATUS_LABELS: Partial<Record<CallStatus, string>> = {
+  missed: "Missed call",
+  unanswered: "Not answered",
+  rejected: "Rejected call",
+  voicemail: "Voicemail",
+  blocked: "Blocked call",
+};
+
+// Calls shown and counted as missed
+export const isMissedCall = (call: CallInfo | undefined): boolean =>
+  call?.status === "missed" || call?.status === "rejected" || call?.status === "blocked";
+
+// "Incoming call · 1:05", "Missed call", "Outgoing call · Not answered"
+export const describeCall = (call: CallInfo): string => {
+  const label = call.direction === "outgoing" ? "Outgoing call" : "Incoming call";
+  if (isMissedCall(call)) {
+    return STATUS_LABELS[call.status]!;
+  }
+  const detail = STATUS_LABELS[call.status] ||
+    (call.durationSeconds ? formatCallDuration(call.durationSeconds) : "");
+  return detail ? `${label} · ${detail}` : label;
+};
+
+export interface CallSummary {
+  calls: number;
+  missed: number;
+  talkSeconds: number;
+}
+
+export const summarizeCalls = (messages: Message[]): CallSummary => {
+  const summary: CallSummary = { calls: 0, missed: 0, talkSeconds: 0 };
+  messages.forEach((message) => {
+    if (!message.call) return;
+    summary.calls++;
+    if (isMissedCall(message.call)) summary.missed++;
+    summary.talkSeconds += message.call.durationSeconds || 0;
+  });
+  return summary;
+};
@@ -0,0 +1,56 @@
+import type { DataRecord, Message, MessageChannel } from "../types";
+import { parseAttachments } from "./attachmentUtils";
+
+export const CHANNEL_LABELS: Record<MessageChannel, string> = {
+  sms: "SMS",
+  im: "IM",
+  call: "Calls",
+};
+
+// Display name and the spellings found in exports, package names and media paths
+const MESSAGING_APPS: [string, RegExp][] = [
+  ["WhatsApp", /whats\s*app|com\.whatsapp/i],
+  ["Viber", /viber/i],
+  ["Telegram", /telegram|org\.telegram/i],
+  ["Signal", /\bsignal\b|org\.thoughtcrime/i],
+  ["Messenger", /messenger|com\.facebook\.orca/i],
+  ["iMessage", /imessage/i],
+  ["WeChat", /wechat|com\.tencent\.mm/i],
+  ["Line", /\bline\b|jp\.naver\.line/i],
+  ["Skype", /skype/i],
+  ["imo", /\bimo\b/i],
+];
+
+// "WhatsApp" for "whatsapp", "com.whatsapp" or ".../WhatsApp/Media/..."
+export const findMessagingApp = (value: string): string | undefined =>
+  value ? MESSAGING_APPS.find(([, pattern]) => pattern.test(value))?.[0] : undefined;
+
+export const getRecordChannel = (record: DataRecord): MessageChannel =>
+  record.Type === "Call Log" ? "call" : record.Type === "Instant Messages" ? "im" : "sms";
+
+// The App field when the export has one, otherwise the app folder the
+// attachments were extracted from. SMS never carries an app.
+export const detectRecordApp = (record: DataRecord): string | undefined => {
+  if (record.Type !== "Instant Messages" && record.Type !== "Call Log") return undefined;
+  if (record.App?.trim()) return findMessagingApp(record.App) || record.App.trim();
+
+  // Folders only, a file called "signal.jpg" says nothing about the app
+  for (const attachment of parseAttachments(record.Attachments)) {
+    const folders = attachment.path.split("/").slice(0, -1);
+    for (const folder of folders) {
+      const app = findMessagingApp(folder);
+      if (app) return app;
+    }
+  }
+  return undefined;
+};
+
+// "WhatsApp", or "SMS" / "IM" / "Calls" when the app is not known
+export const getChannelLabel = (message: Pick<Message, "channel" | "app">): string =>
+  message.app || CHANNEL_LABELS[message.channel];
+
+// Channels present in a conversation, in CHANNEL_LABELS order
+export const getMessageChannels = (messages: Message[]): MessageChannel[] => {
+  const present = new Set(messages.map((message) => message.channel));
+  return (Object.keys(CHANNEL_LABELS) as MessageChannel[]).filter((channel) => present.has(channel));
+};
@@ -18,6 +18,26 @@ const COLOR_COMBINATIONS = [
   'from-sky-400 to-sky-600',
 ];
 
+// Solid colors matching COLOR_COMBINATIONS, for SVG fills and other non-class contexts
+const HEX_COLORS = [
+  '#3b82f6',
+  '#22c55e',
+  '#a855f7',
+  '#ec4899',
+  '#6366f1',
+  '#ef4444',
+  '#eab308',
+  '#06b6d4',
+  '#f97316',
+  '#14b8a6',
+  '#84cc16',
+  '#10b981',
+  '#8b5cf6',
+  '#d946ef',
+  '#f43f5e',
+  '#0ea5e9',
+];
+
 // Simple hash function to convert string to number
 function hashString(str: string): number {
   let hash = 0;
@@ -36,6 +56,12 @@ export function getContactColor(contactId: string): string {
   return COLOR_COMBINATIONS[colorIndex];
 }
 
+// Get the solid color for a contact, consistent with getContactColor
+export function getContactHexColor(contactId: string): string {
+  const hash = hashString(contactId);
+  return HEX_COLORS[hash % HEX_COLORS.length];
+}
+
 // Get text color that contrasts well with the gradient backgrounds
 export function getContactTextColor(): string {
   return 'text-white';
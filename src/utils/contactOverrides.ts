@@ -0,0 +1,153 @@
+import type {
+  Contact,
+  ContactOverrides,
+  Message,
+  NormalizedStats,
+  ProcessedData,
+} from "../types";
+import { describeAttachments } from "./attachmentUtils";
+
+export const EMPTY_CONTACT_OVERRIDES: ContactOverrides = { merges: {}, splits: [] };
+
+const STORAGE_PREFIX = "contactOverrides:";
+
+// Conversation id of a number split out of its conversation; prefixed so
+// it never collides with a normalised number
+export const getSplitContactId = (rawPhone: string): string => `raw:${rawPhone}`;
+
+// Overrides belong to the exports they were made on. The record count tells
+// apart two loads of files that happen to share names.
+export const getDatasetKey = (data: ProcessedData): string =>
+  `${data.sources.join("|")}#${data.qualityReport.totalRecords}`;
+
+export const loadContactOverrides = (datasetKey: string): ContactOverrides => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_PREFIX + datasetKey) || "null");
+    if (saved && typeof saved.merges === "object" && Array.isArray(saved.splits)) {
+      return { merges: saved.merges, splits: saved.splits };
+    }
+  } catch {
+    // Unreadable overrides are dropped rather than breaking the import
+  }
+  return EMPTY_CONTACT_OVERRIDES;
+};
+
+export const saveContactOverrides = (datasetKey: string, overrides: ContactOverrides) => {
+  const key = STORAGE_PREFIX + datasetKey;
+  if (Object.keys(overrides.merges).length === 0 && overrides.splits.length === 0) {
+    localStorage.removeItem(key);
+  } else {
+    localStorage.setItem(key, JSON.stringify(overrides));
+  }
+};
+
+// The numbers each conversation was written under, in order of first use
+export const getNormalizedStats = (
+  contacts: Contact[],
+  messagesByContact: Map<string, Message[]>
+): NormalizedStats => {
+  const phoneVariations: NormalizedStats["phoneVariations"] = {};
+  let totalContacts = 0;
+  contacts.forEach((contact) => {
+    const contactId = contact.normalizedPhone || contact.phone;
+    const variations = new Set<string>();
+    (messagesByContact.get(contactId) || []).forEach((message) => variations.add(message.rawPhone));
+    phoneVariations[contactId] = Array.from(variations);
+    totalContacts += variations.size;
+  });
+  return { totalContacts, uniqueContacts: contacts.length, phoneVariations };
+};
+
+// Summary fields recomputed from a regrouped, sorted conversation
+const summarizeContact = (base: Contact, contactId: string, messages: Message[]): Contact => {
+  const last = messages[messages.length - 1];
+  return {
+    ...base,
+    normalizedPhone: contactId,
+    lastMessage: last.text || describeAttachments(last.attachments || []),
+    lastMessageTime: last.timestamp,
+    lastMessageUtcOffset: last.utcOffset,
+    messageCount: messages.length,
+    deletedCount: messages.filter((message) => message.isDeleted).length,
+    // Only received messages affect unread state
+    isRead: messages.every((message) => message.isFromMe || message.isRead),
+  };
+};
+
+// Regroups the processed conversations: split numbers first, then merges,
+// following chains of merges. Ids that no longer exist are ignored.
+export const applyContactOverrides = (
+  data: ProcessedData,
+  overrides: ContactOverrides
+): ProcessedData => {
+  const splits = new Set(overrides.splits);
+  if (splits.size === 0 && Object.keys(overrides.merges).length === 0) return data;
+
+  // Contact details for every id a message can end up in before merging
+  const bases = new Map<string, Contact>();
+  data.contacts.forEach((contact) => {
+    const contactId = contact.normalizedPhone || contact.phone;
+    bases.set(contactId, contact);
+    (data.messagesByContact.get(contactId) || []).forEach((message) => {
+      const splitId = getSplitContactId(message.rawPhone);
+      if (splits.has(message.rawPhone) && !bases.has(splitId)) {
+        bases.set(splitId, { ...contact, phone: message.rawPhone, normalizedPhone: splitId });
+      }
+    });
+  });
+
+  const resolveMerge = (contactId: string): string => {
+    const seen = new Set<string>();
+    let current = contactId;
+    while (!seen.has(current)) {
+      seen.add(current);
+      const next = overrides.merges[current];
+      if (!next || !bases.has(next)) break;
+      current = next;
+    }
+    return current;
+  };
+
+  const messagesByContact = new Map<string, Message[]>();
+  // A merged conversation takes a name from any of its parts when its own is unknown
+  const knownNames = new Map<string, string>();
+  data.contacts.forEach((contact) => {
+    const contactId = contact.normalizedPhone || contact.phone;
+    (data.messagesByContact.get(contactId) || []).forEach((message) => {
+      const groupId = resolveMerge(
+        splits.has(message.rawPhone) ? getSplitContactId(message.rawPhone) : contactId
+      );
+      if (contact.name && contact.name !== "Unknown" && !knownNames.has(groupId)) {
+        knownNames.set(groupId, contact.name);
+      }
+      let messages = messagesByContact.get(groupId);
+      if (!messages) {
+        messages = [];
+        messagesByContact.set(groupId, messages);
+      }
+      messages.push(message);
+    });
+  });
+
+  const contacts: Contact[] = [];
+  messagesByContact.forEach((messages, contactId) => {
+    // Merged threads interleave; each part was already in order
+    messages.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    const base = bases.get(contactId)!;
+    const name = base.name && base.name !== "Unknown" ? base.name : knownNames.get(contactId) || base.name;
+    contacts.push(summarizeContact({ ...base, name }, contactId, messages));
+  });
+  contacts.sort((a, b) => b.lastMessageTime.getTime() - a.lastMessageTime.getTime());
+
+  return {
+    ...data,
+    contacts,
+    messagesByContact,
+    qualityReport: {
+      ...data.qualityReport,
+      issues: data.qualityReport.issues.map((issue) =>
+        issue.contactId ? { ...issue, contactId: resolveMerge(issue.contactId) } : issue
+      ),
+    },
+  };
+};
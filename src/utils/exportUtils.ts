@@ -0,0 +1,240 @@
+import type { Contact, Message } from "../types";
+import { describeAttachments } from "./attachmentUtils";
+import { describeCall } from "./callUtils";
+import { formatGeoPoint } from "./locationUtils";
+import { getContactDisplayName, getDayKey, getMessageYear } from "./messageUtils";
+import { getTextDirection } from "./thaanaUtils";
+import { formatDateInZone } from "./timeZoneUtils";
+import type { ZoneSpec } from "./timeZoneUtils";
+
+export type ConversationExportFormat = "html" | "print" | "csv";
+
+export interface ConversationExportOptions {
+  // Inclusive "YYYY-MM-DD" days in the display time zone; empty for no limit
+  from: string;
+  to: string;
+  zoneFor: (sourceOffsetMinutes?: number) => ZoneSpec;
+  // Shown in the header so readers know how times were converted
+  timeZoneLabel: string;
+}
+
+export const filterMessagesByDay = (
+  messages: Message[],
+  { from, to, zoneFor }: Pick<ConversationExportOptions, "from" | "to" | "zoneFor">
+): Message[] => {
+  if (!from && !to) return messages;
+  return messages.filter((message) => {
+    const day = getDayKey(message.timestamp, zoneFor(message.utcOffset));
+    return (!from || day >= from) && (!to || day <= to);
+  });
+};
+
+const formatFullTime = (message: Message, zoneFor: ConversationExportOptions["zoneFor"]): string =>
+  formatDateInZone(message.timestamp, zoneFor(message.utcOffset), {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+
+const escapeHtml = (value: string): string =>
+  value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
+// Spreadsheet apps run a cell starting with one of these as a formula, so
+// "+9607781405" or "=HYPERLINK(...)" in a message would be evaluated
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+const escapeCsvCell = (value: string): string => {
+  const safe = FORMULA_START.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+// "Ali Rasheed" -> "ali-rasheed"; falls back to the digits of the number
+export const getExportFileName = (contact: Contact, extension: string): string => {
+  const base = getContactDisplayName(contact)
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, "-")
+    .replace(/^-|-$/g, "") || "conversation";
+  return `${base}-${new Date().toISOString().slice(0, 10)}.${extension}`;
+};
+
+const CSV_HEADERS = [
+  "Record ID",
+  "Contact",
+  "Number",
+  "Time",
+  "UTC time",
+  "Direction",
+  "Type",
+  "Text",
+  "Attachments",
+  "Location",
+  "Deleted",
+  "Sources",
+  "Call status",
+  "Call duration (s)",
+  "App",
+];
+
+export const buildConversationCsv = (
+  contact: Contact,
+  messages: Message[],
+  { zoneFor }: ConversationExportOptions
+): string => {
+  const rows = messages.map((message) => [
+    message.recordId,
+    getContactDisplayName(contact),
+    message.rawPhone,
+    formatFullTime(message, zoneFor),
+    message.timestamp.toISOString(),
+    message.isFromMe ? "Sent" : "Received",
+    message.isCallLog ? "Call" : message.channel === "im" ? "Instant message" : "SMS",
+    message.text,
+    (message.attachments || []).map((attachment) => attachment.path).join("; "),
+    message.location ? formatGeoPoint(message.location) : "",
+    message.isDeleted ? "Yes" : "",
+    message.sources.join("; "),
+    message.call?.status || "",
+    message.call?.durationSeconds != null ? String(message.call.durationSeconds) : "",
+    message.app || "",
+  ]);
+  // BOM so spreadsheet apps read Thaana and other non-Latin text as UTF-8
+  return "\uFEFF" + [CSV_HEADERS, ...rows]
+    .map((cells) => cells.map(escapeCsvCell).join(","))
+    .join("\r\n");
+};
+
+// Screen layout follows MessageBubble; the print layout drops the colours
+// and keeps every message on one page where it can
+const HTML_STYLES = `
+  body { margin: 0; font-family: ui-sans-serif, system-ui, "Noto Sans Thaana", "MV Faseyha", "Faruma", sans-serif; background: #f9fafb; color: #111827; }
+  header { padding: 16px 24px; background: #fff; border-bottom: 1px solid #e5e7eb; }
+  h1 { margin: 0 0 4px; font-size: 20px; }
+  dl { display: grid; grid-template-columns: max-content 1fr; gap: 2px 12px; margin: 8px 0 0; font-size: 13px; color: #4b5563; }
+  dt { font-weight: 600; }
+  dd { margin: 0; }
+  main { max-width: 720px; margin: 0 auto; padding: 16px; }
+  .row { display: flex; margin: 8px 0; }
+  .row.me { justify-content: flex-end; }
+  .bubble { max-width: 75%; padding: 8px 16px; border-radius: 16px; box-shadow: 0 1px 2px rgba(0,0,0,.05); }
+  .me .bubble { background: #3b82f6; color: #fff; border-bottom-right-radius: 4px; }
+  .them .bubble { background: #fff; border: 1px solid #e5e7eb; border-bottom-left-radius: 4px; }
+  .deleted .bubble { opacity: .7; border: 1px dashed #fca5a5; }
+  .text { margin: 0; font-size: 14px; line-height: 1.6; white-space: pre-wrap; }
+  .meta { margin-top: 6px; font-size: 11px; text-align: end; opacity: .75; }
+  .call { justify-content: center; }
+  .call .bubble { background: #e5e7eb; color: #4b5563; border-radius: 9999px; padding: 6px 12px; font-size: 12px; }
+  .call .meta { display: inline; margin-left: 8px; }
+  .divider { display: flex; align-items: center; margin: 24px 0; color: #4b5563; font-size: 12px; font-weight: 600; }
+  .divider::before, .divider::after { content: ""; flex: 1; border-top: 1px solid #d1d5db; }
+  .divider span { margin: 0 16px; padding: 4px 12px; background: #e5e7eb; border-radius: 9999px; }
+  body.print { background: #fff; }
+  body.print .bubble, body.print .me .bubble, body.print .call .bubble { background: #fff; color: #000; border: 1px solid #9ca3af; box-shadow: none; }
+  body.print .me .bubble { border-color: #000; }
+  @media print {
+    body { background: #fff; }
+    header { border-bottom: 2px solid #000; }
+    .row, .divider { break-inside: avoid; }
+  }
+`;
+
+const renderMessageHtml = (message: Message, zoneFor: ConversationExportOptions["zoneFor"]): string => {
+  const meta = [
+    escapeHtml(formatFullTime(message, zoneFor)),
+    `ID ${escapeHtml(message.recordId)}`,
+    ...(message.app ? [escapeHtml(message.app)] : []),
+    ...(message.isDeleted ? ["Deleted"] : []),
+  ].join(" · ");
+
+  if (message.isCallLog) {
+    return `<div class="row call${message.isDeleted ? " deleted" : ""}"><div class="bubble">` +
+      escapeHtml(message.call ? describeCall(message.call) : `${message.isFromMe ? "Outgoing" : "Incoming"} call`) +
+      `<span class="meta">${meta}</span></div></div>`;
+  }
+
+  const details = [
+    ...(message.attachments?.length ? [`Attachments: ${escapeHtml(describeAttachments(message.attachments))}`] : []),
+    ...(message.location ? [`Location: ${escapeHtml(message.location.label || formatGeoPoint(message.location))}`] : []),
+  ];
+  return `<div class="row ${message.isFromMe ? "me" : "them"}${message.isDeleted ? " deleted" : ""}"><div class="bubble">` +
+    (message.text ? `<p class="text" dir="${getTextDirection(message.text)}">${escapeHtml(message.text)}</p>` : "") +
+    details.map((detail) => `<p class="text">${detail}</p>`).join("") +
+    `<div class="meta">${meta}</div></div></div>`;
+};
+
+// Standalone page with the contact details, a divider at the start of every
+// year and the messages and calls in order. The print variant opens the
+// browser's print dialog, from which it can be saved as PDF.
+export const buildConversationHtml = (
+  contact: Contact,
+  messages: Message[],
+  options: ConversationExportOptions,
+  printable = false
+): string => {
+  const { zoneFor } = options;
+  const name = getContactDisplayName(contact);
+  const numbers = Array.from(new Set(messages.map((message) => message.rawPhone)));
+  const sources = Array.from(new Set(messages.flatMap((message) => message.sources)));
+  const first = messages[0];
+  const last = messages[messages.length - 1];
+
+  const details: [string, string][] = [
+    ["Number", contact.normalizedPhone || contact.phone],
+    ...(numbers.length > 0 ? [["As written", numbers.join(", ")] as [string, string]] : []),
+    ["Messages", messages.length.toLocaleString()],
+    ["Period", first ? `${formatFullTime(first, zoneFor)} – ${formatFullTime(last, zoneFor)}` : "–"],
+    ...(options.from || options.to
+      ? [["Filtered to", `${options.from || "start"} – ${options.to || "end"}`] as [string, string]]
+      : []),
+    ["Time zone", options.timeZoneLabel],
+    ["Sources", sources.join(", ") || "–"],
+    ["Exported", new Date().toISOString()],
+  ];
+
+  let previousYear: number | null = null;
+  const body = messages.map((message) => {
+    const year = getMessageYear(message.timestamp, zoneFor(message.utcOffset));
+    const divider = year !== previousYear ? `<div class="divider"><span>${year}</span></div>` : "";
+    previousYear = year;
+    return divider + renderMessageHtml(message, zoneFor);
+  }).join("\n");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(name)}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body${printable ? ' class="print" onload="window.print()"' : ""}>
+<header>
+<h1>${escapeHtml(name)}</h1>
+<dl>${details.map(([label, value]) => `<dt>${label}</dt><dd>${escapeHtml(value)}</dd>`).join("")}</dl>
+</header>
+<main>
+${body || "<p>No messages in the selected period.</p>"}
+</main>
+</body>
+</html>
+`;
+};
+
+// The print layout opens in a new tab, which prints itself once loaded
+export const openInNewTab = (html: string) => {
+  const url = URL.createObjectURL(new Blob([html], { type: "text/html" }));
+  window.open(url, "_blank");
+  setTimeout(() => URL.revokeObjectURL(url), 60 * 1000);
+};
+
+export const downloadFile = (content: string, fileName: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Give the browser a moment to start the download before releasing it
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
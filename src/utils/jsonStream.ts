@@ -0,0 +1,97 @@
+// Incremental parser for a top-level JSON array. Text is pushed in arbitrary
+// chunks and every complete element is handed to onElement as soon as its
+// closing character arrives, so the whole document never has to be in memory.
+export class JsonArrayStreamParser {
+  private buffer = "";
+  // Scan position inside buffer
+  private position = 0;
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+  private started = false;
+  private finished = false;
+  // Start of the element currently being read, -1 between elements
+  private elementStart = -1;
+  private onElement: (element: unknown) => void;
+
+  constructor(onElement: (element: unknown) => void) {
+    this.onElement = onElement;
+  }
+
+  push(chunk: string) {
+    if (this.finished) return;
+    this.buffer += chunk;
+
+    for (; this.position < this.buffer.length; this.position++) {
+      const char = this.buffer[this.position];
+
+      if (!this.started) {
+        if (/\s/.test(char) || char === "\uFEFF") continue;
+        if (char !== "[") throw new Error("Expected a JSON array");
+        this.started = true;
+        this.depth = 1;
+        continue;
+      }
+
+      if (this.inString) {
+        if (this.escaped) this.escaped = false;
+        else if (char === "\\") this.escaped = true;
+        else if (char === '"') this.inString = false;
+        continue;
+      }
+
+      if (this.depth === 1 && this.elementStart === -1) {
+        // Between elements: skip separators and look for the next value
+        if (/\s/.test(char) || char === ",") continue;
+        if (char === "]") {
+          this.finished = true;
+          this.depth = 0;
+          break;
+        }
+        this.elementStart = this.position;
+      }
+
+      if (this.depth === 1 && char === "]") {
+        // Closing bracket of the outer array, possibly ending a bare scalar
+        this.emit(this.position);
+        this.finished = true;
+        this.depth = 0;
+        break;
+      }
+
+      if (char === '"') {
+        this.inString = true;
+      } else if (char === "{" || char === "[") {
+        this.depth++;
+      } else if (char === "}" || char === "]") {
+        this.depth--;
+        if (this.depth === 1) this.emit(this.position + 1);
+      } else if (this.depth === 1 && (char === "," || /\s/.test(char))) {
+        // End of a bare scalar element (number, true, null...)
+        this.emit(this.position);
+      }
+    }
+
+    // Drop text that has been fully consumed to keep the buffer small
+    const keepFrom = this.elementStart === -1 ? this.position : this.elementStart;
+    if (keepFrom > 0) {
+      this.buffer = this.buffer.slice(keepFrom);
+      this.position -= keepFrom;
+      if (this.elementStart !== -1) this.elementStart -= keepFrom;
+    }
+  }
+
+  // Call once the input has ended; throws when the array was not closed
+  end() {
+    if (!this.finished) {
+      throw new Error("Unexpected end of JSON input");
+    }
+  }
+
+  private emit(endIndex: number) {
+    if (this.elementStart === -1) return;
+    const text = this.buffer.slice(this.elementStart, endIndex);
+    this.elementStart = -1;
+    this.onElement(JSON.parse(text));
+  }
+}
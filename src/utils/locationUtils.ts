@@ -0,0 +1,61 @@
+import type { GeoPoint } from "../types";
+
+const NUMBER = "[-+]?\\d{1,3}(?:\\.\\d+)?";
+
+// "Lat: 4.17 Long: 73.5", "latitude=4.17, longitude=73.5"
+const LABELLED_PATTERN = new RegExp(
+  `lat(?:itude)?\\s*[:=]?\\s*(${NUMBER})\\s*([NS])?[\\s,;]+lo?ng?(?:itude)?\\s*[:=]?\\s*(${NUMBER})\\s*([EW])?`,
+  "i"
+);
+
+// "4.1755, 73.5093", "(4.17 73.5)", "geo:4.17,73.5", "4.17N 73.5E"
+const PAIR_PATTERN = new RegExp(
+  `(${NUMBER})\\s*([NS])?\\s*[,;\\s]\\s*(${NUMBER})\\s*([EW])?`,
+  "i"
+);
+
+const applyHemisphere = (value: number, hemisphere: string | undefined) => {
+  if (!hemisphere) return value;
+  const letter = hemisphere.toUpperCase();
+  return letter === "S" || letter === "W" ? -Math.abs(value) : Math.abs(value);
+};
+
+// Parse the raw Locations field; returns null when no usable coordinates are found
+export const parseLocation = (raw: string | undefined | null): GeoPoint | null => {
+  if (!raw || typeof raw !== "string") return null;
+
+  const text = raw.trim();
+  const match = text.match(LABELLED_PATTERN) || text.match(PAIR_PATTERN);
+  if (!match) return null;
+
+  const latitude = applyHemisphere(parseFloat(match[1]), match[2]);
+  const longitude = applyHemisphere(parseFloat(match[3]), match[4]);
+
+  if (
+    !isFinite(latitude) ||
+    !isFinite(longitude) ||
+    Math.abs(latitude) > 90 ||
+    Math.abs(longitude) > 180
+  ) {
+    return null;
+  }
+  // 0,0 is what most tools write when the fix is missing
+  if (latitude === 0 && longitude === 0) return null;
+
+  // Anything left over (e.g. "Male, Maldives") is kept as a label
+  const label = text
+    .replace(match[0], "")
+    .replace(/^geo:/i, "")
+    .replace(/[()[\]]/g, "")
+    .replace(/^[\s,;:-]+|[\s,;:-]+$/g, "")
+    .trim();
+
+  return {
+    latitude,
+    longitude,
+    ...(label && { label }),
+  };
+};
+
+export const formatGeoPoint = (point: GeoPoint): string =>
+  `${point.latitude.toFixed(5)}, ${point.longitude.toFixed(5)}`;
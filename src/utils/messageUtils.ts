@@ -1,11 +1,38 @@
 import type {
+  Attachment,
+  CalendarEvent,
+  DataQualityIssue,
+  DataQualityReport,
   DataRecord,
+  GeoPoint,
   UnifiedRecord,
   Contact,
   Message,
+  MessageAttribution,
   MessageStatus,
+  PhoneNumberKind,
+  ProcessedData,
+  RecordBatch,
 } from "../types";
-import { normalizePhoneNumber } from "./phoneUtils";
+import { DEFAULT_PHONE_REGION, parsePhoneNumber } from "./phoneUtils";
+import { describeAttachments, parseAttachments } from "./attachmentUtils";
+import { parseLocation } from "./locationUtils";
+import { parseCallInfo } from "./callUtils";
+import { detectRecordApp, getRecordChannel } from "./channelUtils";
+import {
+  attributeOrphan,
+  buildAttributionIndex,
+  UNATTRIBUTED_CONTACT_ID,
+  type OrphanRecord,
+} from "./orphanAttribution";
+import {
+  createDateAtOffset,
+  formatDateInZone,
+  formatTimeInZone,
+  getZonedParts,
+  parseUtcOffset,
+  type ZoneSpec,
+} from "./timeZoneUtils";
 
 const mapSMSStatusToMessageStatus = (
   smsStatus: string,
@@ -45,25 +72,88 @@ const isDataRecord = (record: UnifiedRecord): record is DataRecord => {
   return "ID" in record && "Type" in record && "Description" in record;
 };
 
-// Helper function to parse new timestamp format
-const parseNewTimestamp = (timestampStr: string): Date => {
-  try {
-    // Format: "13/06/2014 21:15:08(UTC+0)"
-    const cleanStr = timestampStr.replace(/\(.*\)/, "").trim();
-    const [datePart, timePart] = cleanStr.split(" ");
-    const [day, month, year] = datePart.split("/");
-
-    // Construct ISO-like format for parsing
-    const isoStr = `${year}-${month.padStart(2, "0")}-${day.padStart(
-      2,
-      "0"
-    )}T${timePart}`;
-    return new Date(isoStr);
-  } catch {
-    return new Date();
+// Values of the Deleted/deleted field that mark a recovered record
+const DELETED_VALUES = new Set(["deleted", "yes", "y", "true", "1"]);
+
+// Helper function to read the Deleted/deleted field.
+// Tools write anything from "Deleted" or "Yes" to "Intact", "N/A" or an
+// empty string, so only an explicit yes counts as deleted.
+const isDeletedValue = (value: string | null | undefined): boolean => {
+  if (value == null) return false;
+  return DELETED_VALUES.has(String(value).trim().toLowerCase());
+};
+
+export interface ParsedTimestamp {
+  timestamp: Date;
+  // Minutes east of UTC from the "(UTC+N)" suffix, when the record has one
+  utcOffset?: number;
+}
+
+// Shared by both formats: "dd/mm/yyyy" plus "HH:mm[:ss] [AM|PM]",
+// interpreted at the given offset or in the viewer's zone when it is unknown
+const parseDayFirstDateTime = (
+  datePart: string,
+  timePart: string,
+  utcOffset: number | null
+): ParsedTimestamp | null => {
+  const dateMatch = datePart.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  const timeMatch = timePart
+    .trim()
+    .match(/^(\d{1,2}):(\d{1,2})(?::(\d{1,2}))?\s*([AP]M)?$/i);
+  if (!dateMatch || !timeMatch) return null;
+
+  const [, day, month, year] = dateMatch.map(Number);
+  let hour = parseInt(timeMatch[1], 10);
+  const minute = parseInt(timeMatch[2], 10);
+  const second = timeMatch[3] ? parseInt(timeMatch[3], 10) : 0;
+  const meridiem = timeMatch[4]?.toUpperCase();
+  if (meridiem === "PM" && hour < 12) hour += 12;
+  if (meridiem === "AM" && hour === 12) hour = 0;
+
+  if (month < 1 || month > 12 || day < 1 || day > 31 || hour > 23 || minute > 59 || second > 59) {
+    return null;
   }
+
+  const timestamp =
+    utcOffset === null
+      ? new Date(year, month - 1, day, hour, minute, second)
+      : createDateAtOffset(year, month, day, hour, minute, second, utcOffset);
+  if (isNaN(timestamp.getTime())) return null;
+
+  return utcOffset === null ? { timestamp } : { timestamp, utcOffset };
+};
+
+// Helper function to parse new timestamp format
+// Returns null when the string cannot be turned into a valid date
+export const parseNewTimestamp = (timestampStr: string): ParsedTimestamp | null => {
+  if (!timestampStr || typeof timestampStr !== "string") return null;
+
+  // Format: "13/06/2014 21:15:08(UTC+0)"
+  const zoneMatch = timestampStr.match(/\((.*)\)/);
+  const cleanStr = timestampStr.replace(/\(.*\)/, "").trim();
+  const [datePart, ...timeParts] = cleanStr.split(/\s+/);
+  if (!datePart || timeParts.length === 0) return null;
+
+  return parseDayFirstDateTime(
+    datePart,
+    timeParts.join(" "),
+    zoneMatch ? parseUtcOffset(zoneMatch[1]) : null
+  );
 };
 
+// Helper function to parse legacy "date" + "time" fields
+const parseLegacyTimestamp = (date: string, time: string): ParsedTimestamp | null => {
+  if (!date || !time) return null;
+  const zoneMatch = time.match(/\((.*)\)/);
+  return parseDayFirstDateTime(
+    date.trim(),
+    time.replace(/\(.*\)/, ""),
+    zoneMatch ? parseUtcOffset(zoneMatch[1]) : null
+  );
+};
+
+const MAX_SENDER_ID_LENGTH = 11;
+
 // Helper function to extract phone number and name from Party field
 const extractPhoneFromParty = (
   party: string
@@ -105,38 +195,311 @@ const extractPhoneFromParty = (
     };
   }
 
+  // Alphanumeric sender IDs ("Ooredoo", "BML") are at most 11 characters
+  if (partyContent.length <= MAX_SENDER_ID_LENGTH && /^[\p{L}\p{N}][\p{L}\p{N} .&_-]*$/u.test(partyContent)) {
+    return {
+      phone: partyContent,
+      name: "Unknown",
+    };
+  }
+
   // If no phone number found, skip this record
   return null;
 };
 
+// Calendar records share the Timestamp format but have no party
+const createCalendarEvent = (
+  record: DataRecord,
+  index: number
+): CalendarEvent | null => {
+  const parsed = parseNewTimestamp(record.Timestamp);
+  if (!parsed) return null;
+
+  const description = (record.Description || "").trim();
+  const [firstLine, ...rest] = description.split(/\r?\n/);
+  const id = parseInt(record.ID);
+
+  return {
+    id: isNaN(id) ? -(index + 1) : id,
+    recordId: record.ID,
+    title: firstLine?.trim() || "(untitled event)",
+    details: rest.join("\n").trim(),
+    timestamp: parsed.timestamp,
+    utcOffset: parsed.utcOffset,
+    location: record.Locations?.trim() || undefined,
+  };
+};
+
+const PROGRESS_INTERVAL = 5000;
+
+// A message record as read in the first pass, before it is tied to a conversation
+interface ParsedMessageRecord {
+  record: UnifiedRecord;
+  index: number;
+  source: string;
+  messageText: string;
+  parsedTimestamp: ParsedTimestamp | null;
+  isFromMe: boolean;
+  isRead: boolean;
+  attachments: Attachment[];
+  location: GeoPoint | null;
+  isDeleted: boolean;
+  // Issues for records that are still imported, completed once the contact is known
+  repairs: DataQualityIssue[];
+}
+
+// Conversation a message is added to
+interface ConversationTarget {
+  key: string;
+  phone: string;
+  name: string;
+  normalizedPhone: string;
+  phoneKind: PhoneNumberKind;
+}
+
+const UNATTRIBUTED_TARGET: ConversationTarget = {
+  key: UNATTRIBUTED_CONTACT_ID,
+  phone: "",
+  name: "Unattributed",
+  normalizedPhone: UNATTRIBUTED_CONTACT_ID,
+  phoneKind: "unknown",
+};
+
+// Several batches are processed as one dataset. A record found in more than
+// one source (same conversation, record type, ID and timestamp) becomes a single
+// message tagged with every source it came from.
 export const processMessagesData = (
-  data: UnifiedRecord[]
-): {
-  contacts: Contact[];
-  messagesByContact: Map<string, Message[]>;
-  searchableData: Map<string, string[]>;
-} => {
+  batches: RecordBatch[],
+  // Called every PROGRESS_INTERVAL records with the number processed so far
+  onProgress?: (processed: number, total: number) => void,
+  // Country whose rules apply to numbers written without a country code
+  defaultRegion: string = DEFAULT_PHONE_REGION
+): ProcessedData => {
+  const data = batches.length === 1 ? batches[0].records : batches.flatMap((batch) => batch.records);
   const contactsMap = new Map<string, Contact>();
+  const calendarEvents: CalendarEvent[] = [];
   const messagesByContact = new Map<string, Message[]>();
-  const searchableData = new Map<string, string[]>();
+  const issues: DataQualityIssue[] = [];
+  // First message seen for each conversation/record type/ID/timestamp
+  const messagesByRecordKey = new Map<string, Message>();
+  const calendarSourcesByKey = new Map<string, string[]>();
+  // Records with an empty "From:" or "To:", placed after every other record
+  const orphans: (ParsedMessageRecord & OrphanRecord & { party: string })[] = [];
+  // Orphans still waiting for the next record with a number in their file
+  let awaitingNext: OrphanRecord[] = [];
+  const contactKeysByThread = new Map<string, Set<string>>();
   let lastContactKey: string | null = null;
+  let validRecords = 0;
+  let skippedRecords = 0;
+  let repairedRecords = 0;
+  let ignoredRecords = 0;
+  let duplicateRecords = 0;
+  let source = "";
+  let batchIndex = -1;
+  let batchStart = 0;
+  let batchEnd = 0;
+  // Message ids are handed out in import order so they stay unique when
+  // several sources reuse the same record IDs
+  let nextMessageId = 1;
+
+  const skip = (issue: Omit<DataQualityIssue, "action">) => {
+    issues.push({ ...issue, action: "skipped", source });
+    skippedRecords++;
+  };
+
+  // Adds a parsed record to its conversation, merging it with a copy from
+  // another source and creating the contact on its first message
+  const addMessage = (
+    parsed: ParsedMessageRecord,
+    { key: contactKey, phone, name: contactName, normalizedPhone, phoneKind }: ConversationTarget,
+    attribution?: MessageAttribution
+  ) => {
+    const {
+      record,
+      source,
+      messageText,
+      parsedTimestamp,
+      isFromMe,
+      isRead,
+      attachments,
+      location,
+      isDeleted,
+      repairs,
+    } = parsed;
+    const timestamp = parsedTimestamp?.timestamp ?? new Date();
+    const utcOffset = parsedTimestamp?.utcOffset;
+
+    // Type too, SMS and call log exports number their records independently
+    const recordKey = [
+      contactKey,
+      isDataRecord(record) ? record.Type : "SMS Messages",
+      isDataRecord(record) ? record.ID : record.id,
+      parsedTimestamp ? timestamp.getTime() : "",
+    ].join("|");
+    const existingMessage = messagesByRecordKey.get(recordKey);
+    // Repeats within one source are kept, they are separate records there
+    if (existingMessage && !existingMessage.sources.includes(source)) {
+      existingMessage.sources.push(source);
+      duplicateRecords++;
+      return;
+    }
+
+    validRecords++;
+    const messageId = nextMessageId++;
+    if (repairs.length > 0) {
+      repairedRecords++;
+      repairs.forEach((issue) => {
+        issues.push({ ...issue, contactId: contactKey, messageId, source });
+      });
+    }
+
+    const isCallLogRecord = isDataRecord(record) && record.Type === "Call Log";
+    const app = isDataRecord(record) ? detectRecordApp(record) : undefined;
+
+    // Create message
+    const message: Message = {
+      id: messageId,
+      text: messageText,
+      timestamp,
+      ...(utcOffset !== undefined && { utcOffset }),
+      isFromMe,
+      isRead,
+      status: mapSMSStatusToMessageStatus(isRead ? "Read" : "Unread", isFromMe),
+      isCallLog: isCallLogRecord,
+      // Legacy records are always SMS
+      channel: isDataRecord(record) ? getRecordChannel(record) : "sms",
+      ...(app && { app }),
+      ...(isCallLogRecord && { call: parseCallInfo(messageText, isFromMe) }),
+      ...(attachments.length > 0 && { attachments }),
+      ...(location && { location }),
+      ...(isDeleted && { isDeleted }),
+      ...(attribution && { attribution }),
+      sources: [source],
+      recordId: isDataRecord(record) ? record.ID : String(record.id),
+      rawPhone: phone,
+    };
+    if (!existingMessage) messagesByRecordKey.set(recordKey, message);
+    const previewText = messageText || describeAttachments(attachments);
+
+    // Add to messages map
+    if (!messagesByContact.has(contactKey)) {
+      messagesByContact.set(contactKey, []);
+    }
+    messagesByContact.get(contactKey)!.push(message);
+
+    // Update or create contact
+    const existingContact = contactsMap.get(contactKey);
+    if (existingContact) {
+      // Update if this message is newer
+      if (timestamp > existingContact.lastMessageTime) {
+        existingContact.lastMessage = previewText;
+        existingContact.lastMessageTime = timestamp;
+        existingContact.lastMessageUtcOffset = utcOffset;
+      }
+      existingContact.messageCount++;
+      if (isDeleted) existingContact.deletedCount++;
+      // Only received (incoming) messages should affect unread state
+      if (!isFromMe) {
+        if (!isRead) {
+          existingContact.isRead = false;
+        }
+      }
+    } else {
+      // Create new contact
+      const contact: Contact = {
+        phone,
+        name: contactName,
+        normalizedPhone,
+        phoneKind,
+        lastMessage: previewText,
+        lastMessageTime: timestamp,
+        lastMessageUtcOffset: utcOffset,
+        messageCount: 1,
+        deletedCount: isDeleted ? 1 : 0,
+        // For initial state, consider only incoming messages for unread
+        isRead: !isFromMe ? isRead : true,
+      };
+      contactsMap.set(contactKey, contact);
+    }
+  };
+
+  // Process each record (both old and new formats). position counts across
+  // all batches and keeps fallback ids unique, index is within the batch.
+  data.forEach((record, position) => {
+    if (onProgress && position % PROGRESS_INTERVAL === 0) {
+      onProgress(position, data.length);
+    }
+
+    while (position >= batchEnd) {
+      batchIndex++;
+      batchStart = batchEnd;
+      batchEnd += batches[batchIndex].records.length;
+      source = batches[batchIndex].source;
+      // Neighbours of an empty party are only looked for in its own source
+      lastContactKey = null;
+      awaitingNext = [];
+    }
+    const index = position - batchStart;
 
-  // Process each record (both old and new formats)
-  data.forEach((record) => {
     let phone: string | null = null;
     let contactName = "Unknown";
     let messageText = "";
-    let timestamp: Date;
+    let parsedTimestamp: ParsedTimestamp | null;
     let isFromMe = false;
-    let messageId: number;
     let isRead = true;
+    let attachments: Attachment[] = [];
+    let location: GeoPoint | null = null;
+    let isDeleted = false;
+    let isOrphan = false;
+    // Issues for records that are still imported, completed once the contact is known
+    const repairs: DataQualityIssue[] = [];
+
+    if (!record || typeof record !== "object") {
+      skip({
+        type: "invalid_format",
+        field: "record",
+        value: record,
+        index,
+        message: "Record is not an object",
+      });
+      return;
+    }
 
     if (isDataRecord(record)) {
       // Process SMS Messages, Instant Messages, and Call Logs
       const isCallLog = record.Type === "Call Log";
       const isSMS = record.Type === "SMS Messages" || record.Type === "Instant Messages";
 
-      if (!isSMS && !isCallLog) return;
+      if (record.Type === "Calendar") {
+        const event = createCalendarEvent(record, position);
+        if (!event) {
+          skip({
+            type: "invalid_timestamp",
+            field: "Timestamp",
+            value: record.Timestamp,
+            index,
+            recordId: record.ID,
+            message: "Calendar event has no valid date",
+          });
+          return;
+        }
+        const calendarKey = `${record.ID}|${event.timestamp.getTime()}`;
+        const calendarSources = calendarSourcesByKey.get(calendarKey);
+        if (calendarSources && !calendarSources.includes(source)) {
+          calendarSources.push(source);
+          duplicateRecords++;
+          return;
+        }
+        if (!calendarSources) calendarSourcesByKey.set(calendarKey, [source]);
+        calendarEvents.push(event);
+        validRecords++;
+        return;
+      }
+
+      if (!isSMS && !isCallLog) {
+        ignoredRecords++;
+        return;
+      }
 
       // Handle new format records
       const partyRaw = (record.Party || "").trim();
@@ -145,141 +508,186 @@ export const processMessagesData = (
 
       const partyInfo = extractPhoneFromParty(record.Party);
 
-      // Call logs can exist without Description
-      if (!isCallLog && !record.Description) return;
+      attachments = parseAttachments(record.Attachments);
+      location = parseLocation(record.Locations);
+      isDeleted = isDeletedValue(record.Deleted);
+
+      // Call logs can exist without Description, attachment-only messages too
+      if (!isCallLog && !record.Description && attachments.length === 0) {
+        skip({
+          type: "empty_value",
+          field: "Description",
+          value: record.Description,
+          index,
+          recordId: record.ID,
+          message: "Message has no text or attachments",
+        });
+        return;
+      }
 
       if (partyInfo) {
         phone = partyInfo.phone;
         contactName = partyInfo.name;
       } else if (hasEmptyFrom || hasEmptyTo) {
-        // Attach to the current chat (lastContactKey)
-        if (!lastContactKey) return;
-        const existing = contactsMap.get(lastContactKey);
-        if (!existing) return;
-        phone = existing.phone;
-        contactName = existing.name;
+        // Placed once every other record is in, see attributeOrphan
+        isOrphan = true;
       } else if (isCallLog && record.Party && !record.Party.includes("From:") && !record.Party.includes("To:")) {
         // Handle call log with just phone number (e.g., "9607778787")
         phone = record.Party;
         contactName = "Unknown";
       } else {
-        return; // Skip records without identifiable party
+        // Skip records without identifiable party
+        skip({
+          type: record.Party ? "invalid_format" : "missing_field",
+          field: "Party",
+          value: record.Party,
+          index,
+          recordId: record.ID,
+          message: record.Party
+            ? "Party does not contain a recognisable phone number"
+            : "Record has no party",
+        });
+        return;
       }
 
       messageText = record.Description || "";
-      timestamp = parseNewTimestamp(record.Timestamp);
+      parsedTimestamp = parseNewTimestamp(record.Timestamp);
+      if (!parsedTimestamp) {
+        repairs.push({
+          type: "invalid_timestamp",
+          action: "repaired",
+          field: "Timestamp",
+          value: record.Timestamp,
+          index,
+          recordId: record.ID,
+          message: "Timestamp could not be parsed, import time used instead",
+        });
+      }
       // Treat Direction == "To" as sent-by-bro; also treat empty "From:" as sent-by-bro
       isFromMe = record.Direction === "To" || hasEmptyFrom;
-      messageId = parseInt(record.ID);
       // For new format, we don't have read status, assume read
       isRead = true;
     } else {
       // Legacy format (SMSRecord)
-      if (!record.party?.phone || !record.message) return;
+      if (!record.party?.phone || !record.message) {
+        skip({
+          type: "missing_field",
+          field: !record.party?.phone ? "party.phone" : "message",
+          value: !record.party?.phone ? record.party?.phone : record.message,
+          index,
+          recordId: record.id != null ? String(record.id) : undefined,
+          message: !record.party?.phone
+            ? "Record has no phone number"
+            : "Message has no text",
+        });
+        return;
+      }
 
       phone = record.party.phone;
       contactName = record.party.name || "Unknown";
       messageText = record.message;
       isFromMe = record.party.direction === "to";
-      messageId = record.id;
       isRead = record.status === "Read";
+      isDeleted = isDeletedValue(record.deleted);
 
       // Parse legacy timestamp
-      try {
-        const dateParts = record.time.date.split("/");
-        const day = dateParts[0];
-        const month = dateParts[1];
-        const year = dateParts[2];
-        const timeStr = record.time.time.replace(/\(.*\)/, "");
-        const fullDateStr = `${month}/${day}/${year} ${timeStr}`;
-        timestamp = new Date(fullDateStr);
-      } catch {
-        timestamp = new Date();
+      parsedTimestamp = parseLegacyTimestamp(record.time?.date, record.time?.time);
+      if (!parsedTimestamp) {
+        repairs.push({
+          type: "invalid_timestamp",
+          action: "repaired",
+          field: "time",
+          value: record.time,
+          index,
+          recordId: String(record.id),
+          message: "Date or time could not be parsed, import time used instead",
+        });
       }
     }
 
-    if (!phone) return;
-
-    const normalizedPhone = normalizePhoneNumber(phone);
-    const contactKey = normalizedPhone || phone;
-    lastContactKey = contactKey;
-
-    // Create message
-    const message: Message = {
-      id: messageId,
-      text: messageText,
-      timestamp,
+    const parsed: ParsedMessageRecord = {
+      record,
+      index,
+      source,
+      messageText,
+      parsedTimestamp,
       isFromMe,
       isRead,
-      status: mapSMSStatusToMessageStatus(isRead ? "Read" : "Unread", isFromMe),
-      isCallLog: isDataRecord(record) && record.Type === "Call Log",
+      attachments,
+      location,
+      isDeleted,
+      repairs,
     };
 
-    // Add to messages map
-    if (!messagesByContact.has(contactKey)) {
-      messagesByContact.set(contactKey, []);
+    if (isOrphan && isDataRecord(record)) {
+      const orphan = {
+        ...parsed,
+        party: record.Party,
+        timestamp: parsedTimestamp?.timestamp ?? new Date(),
+        hasTimestamp: !!parsedTimestamp,
+        threadId: record.ThreadID?.trim() || undefined,
+        previousContactKey: lastContactKey,
+        nextContactKey: null,
+      };
+      orphans.push(orphan);
+      awaitingNext.push(orphan);
+      return;
     }
-    messagesByContact.get(contactKey)!.push(message);
 
-    // Add searchable data for this contact
-    if (!searchableData.has(contactKey)) {
-      searchableData.set(contactKey, []);
-    }
-    const searchTerms = searchableData.get(contactKey)!;
+    if (!phone) return;
+    const { kind: phoneKind, normalized: normalizedPhone } = parsePhoneNumber(phone, defaultRegion);
+    const contactKey = normalizedPhone || phone;
+    lastContactKey = contactKey;
+    awaitingNext.forEach((orphan) => {
+      orphan.nextContactKey = contactKey;
+    });
+    awaitingNext = [];
 
-    // Add searchable terms based on format
-    if (isDataRecord(record)) {
-      // New format: add Party and Description
-      if (record.Party) {
-        searchTerms.push(record.Party);
-      }
-      if (record.Description) {
-        searchTerms.push(record.Description);
-      }
-    } else {
-      // Legacy format: add party.name, party.phone, and message
-      if (record.party?.name) {
-        searchTerms.push(record.party.name);
-      }
-      if (record.party?.phone) {
-        searchTerms.push(record.party.phone);
-      }
-      if (record.message) {
-        searchTerms.push(record.message);
-      }
+    const threadId = isDataRecord(record) ? record.ThreadID?.trim() : undefined;
+    if (threadId) {
+      const threadContacts = contactKeysByThread.get(threadId) || new Set<string>();
+      threadContacts.add(contactKey);
+      contactKeysByThread.set(threadId, threadContacts);
     }
 
-    // Update or create contact
-    const existingContact = contactsMap.get(contactKey);
-    if (existingContact) {
-      // Update if this message is newer
-      if (timestamp > existingContact.lastMessageTime) {
-        existingContact.lastMessage = messageText;
-        existingContact.lastMessageTime = timestamp;
-      }
-      existingContact.messageCount++;
-      // Only received (incoming) messages should affect unread state
-      if (!isFromMe) {
-        if (!isRead) {
-          existingContact.isRead = false;
-        }
-      }
-    } else {
-      // Create new contact
-      const contact: Contact = {
-        phone,
-        name: contactName,
-        normalizedPhone,
-        lastMessage: messageText,
-        lastMessageTime: timestamp,
-        messageCount: 1,
-        // For initial state, consider only incoming messages for unread
-        isRead: !isFromMe ? isRead : true,
-      };
-      contactsMap.set(contactKey, contact);
-    }
+    addMessage(parsed, { key: contactKey, phone, name: contactName, normalizedPhone, phoneKind });
   });
 
+  // Records with an empty party go where thread IDs, neighbouring records,
+  // nearby timestamps and reply patterns point, or to the Unattributed
+  // conversation when nothing points clearly enough
+  if (orphans.length > 0) {
+    const attributionIndex = buildAttributionIndex(messagesByContact, contactKeysByThread);
+    orphans.forEach((orphan) => {
+      const { contactKey, attribution } = attributeOrphan(orphan, attributionIndex);
+      const contact = contactKey ? contactsMap.get(contactKey) : undefined;
+      orphan.repairs.push({
+        type: "missing_field",
+        action: "repaired",
+        field: "Party",
+        value: orphan.party,
+        index: orphan.index,
+        recordId: isDataRecord(orphan.record) ? orphan.record.ID : undefined,
+        message: contact
+          ? `Party has no number, conversation inferred with ${Math.round(attribution.confidence * 100)}% confidence`
+          : "Party has no number and no conversation fits it clearly, kept under Unattributed",
+      });
+      addMessage(
+        orphan,
+        contact && contactKey
+          ? {
+            key: contactKey,
+            phone: contact.phone,
+            name: contact.name,
+            normalizedPhone: contact.normalizedPhone,
+            phoneKind: contact.phoneKind,
+          }
+          : UNATTRIBUTED_TARGET,
+        attribution
+      );
+    });
+  }
+
   // Sort messages by timestamp for each contact
   messagesByContact.forEach((messages) => {
     messages.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
@@ -290,17 +698,35 @@ export const processMessagesData = (
     (a, b) => b.lastMessageTime.getTime() - a.lastMessageTime.getTime()
   );
 
-  return { contacts, messagesByContact, searchableData };
+  calendarEvents.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+  const qualityReport: DataQualityReport = {
+    totalRecords: data.length,
+    validRecords,
+    skippedRecords,
+    repairedRecords,
+    ignoredRecords,
+    duplicateRecords,
+    issues,
+  };
+
+  return {
+    sources: batches.map((batch) => batch.source),
+    contacts,
+    messagesByContact,
+    calendarEvents,
+    qualityReport,
+  };
 };
 
-export const formatMessageTime = (timestamp: Date): string => {
+export const formatMessageTime = (timestamp: Date, zone: ZoneSpec = {}): string => {
   const now = new Date();
   const diffInMs = now.getTime() - timestamp.getTime();
   const diffInDays = Math.floor(diffInMs / (1000 * 60 * 60 * 24));
 
   if (diffInDays === 0) {
     // Today - show time
-    return timestamp.toLocaleTimeString([], {
+    return formatTimeInZone(timestamp, zone, {
       hour: "2-digit",
       minute: "2-digit",
     });
@@ -309,34 +735,29 @@ export const formatMessageTime = (timestamp: Date): string => {
     return "Yesterday";
   } else if (diffInDays < 7) {
     // This week - show day
-    return timestamp.toLocaleDateString([], { weekday: "short" });
+    return formatDateInZone(timestamp, zone, { weekday: "short" });
   } else {
     // Older - show date
-    return timestamp.toLocaleDateString([], { month: "short", day: "numeric" });
+    return formatDateInZone(timestamp, zone, { month: "short", day: "numeric" });
   }
 };
 
-export const formatDetailedMessageTime = (timestamp: Date): string => {
-  const now = new Date();
-  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-  const messageDate = new Date(
-    timestamp.getFullYear(),
-    timestamp.getMonth(),
-    timestamp.getDate()
-  );
-
-  const time = timestamp.toLocaleTimeString([], {
+export const formatDetailedMessageTime = (
+  timestamp: Date,
+  zone: ZoneSpec = {}
+): string => {
+  const time = formatTimeInZone(timestamp, zone, {
     hour: "2-digit",
     minute: "2-digit",
     hour12: true,
   });
 
-  if (messageDate.getTime() === today.getTime()) {
+  if (getDayKey(timestamp, zone) === getDayKey(new Date(), zone)) {
     // Today - show just time
     return time;
   } else {
     // Other days - show date and time WITHOUT year
-    const date = timestamp.toLocaleDateString([], {
+    const date = formatDateInZone(timestamp, zone, {
       month: "short",
       day: "numeric",
     });
@@ -344,8 +765,14 @@ export const formatDetailedMessageTime = (timestamp: Date): string => {
   }
 };
 
-export const getMessageYear = (timestamp: Date): number => {
-  return timestamp.getFullYear();
+export const getMessageYear = (timestamp: Date, zone: ZoneSpec = {}): number => {
+  return getZonedParts(timestamp, zone).year;
+};
+
+// Calendar day as "YYYY-MM-DD" in the given zone, usable as a map key
+export const getDayKey = (timestamp: Date, zone: ZoneSpec = {}): string => {
+  const { year, month, day } = getZonedParts(timestamp, zone);
+  return `${year}-${String(month + 1).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
 };
 
 export const getContactDisplayName = (contact: Contact): string => {
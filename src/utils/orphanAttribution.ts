@@ -0,0 +1,169 @@
+import type { Message, MessageAttribution } from "../types";
+
+// Conversation for records whose Party has no number and that fit no
+// conversation well enough
+export const UNATTRIBUTED_CONTACT_ID = "unattributed";
+export const UNATTRIBUTED_DESCRIPTION = "Records with no number that fit no conversation clearly";
+
+// Below this the record goes to the Unattributed conversation
+export const ATTRIBUTION_THRESHOLD = 0.5;
+
+// Messages further apart than this say nothing about each other
+const NEARBY_WINDOW_MS = 30 * 60 * 1000;
+
+// Evidence weights, combined per conversation as independent signals
+const THREAD_WEIGHT = 0.95;
+const SHARED_THREAD_WEIGHT = 0.5;
+const BETWEEN_WEIGHT = 0.7;
+const NEIGHBOUR_WEIGHT = 0.35;
+const NEARBY_WEIGHT = 0.5;
+const REPLY_WEIGHT = 0.25;
+
+// What is known about a record with an empty "From:" or "To:"
+export interface OrphanRecord {
+  timestamp: Date;
+  // False when the timestamp was made up during import
+  hasTimestamp: boolean;
+  isFromMe: boolean;
+  threadId?: string;
+  // Conversations of the closest records with a number before and after it
+  // in the same file
+  previousContactKey: string | null;
+  nextContactKey: string | null;
+}
+
+interface TimedMessage {
+  time: number;
+  contactKey: string;
+  isFromMe: boolean;
+}
+
+export interface AttributionIndex {
+  // Every placed message, oldest first
+  timeline: TimedMessage[];
+  contactKeysByThread: Map<string, Set<string>>;
+}
+
+export const buildAttributionIndex = (
+  messagesByContact: Map<string, Message[]>,
+  contactKeysByThread: Map<string, Set<string>>
+): AttributionIndex => {
+  const timeline: TimedMessage[] = [];
+  messagesByContact.forEach((messages, contactKey) => {
+    messages.forEach((message) => {
+      timeline.push({ time: message.timestamp.getTime(), contactKey, isFromMe: message.isFromMe });
+    });
+  });
+  timeline.sort((a, b) => a.time - b.time);
+  return { timeline, contactKeysByThread };
+};
+
+// First index with a time of at least the one given
+const lowerBound = (timeline: TimedMessage[], time: number): number => {
+  let low = 0;
+  let high = timeline.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (timeline[middle].time < time) low = middle + 1;
+    else high = middle;
+  }
+  return low;
+};
+
+const formatGap = (ms: number): string => {
+  const minutes = Math.round(ms / 60000);
+  return minutes < 1 ? "under a minute" : `${minutes} min`;
+};
+
+// Scores every conversation the evidence points at and keeps the best one.
+// Competing candidates lower the confidence, so a record between two
+// conversations with nothing else to go on stays unattributed.
+export const attributeOrphan = (
+  orphan: OrphanRecord,
+  { timeline, contactKeysByThread }: AttributionIndex
+): { contactKey: string | null; attribution: MessageAttribution } => {
+  const candidates = new Map<string, { miss: number; reasons: string[] }>();
+  const addEvidence = (contactKey: string, weight: number, reason: string) => {
+    const candidate = candidates.get(contactKey) || { miss: 1, reasons: [] };
+    candidate.miss *= 1 - weight;
+    candidate.reasons.push(reason);
+    candidates.set(contactKey, candidate);
+  };
+
+  const threadContacts = orphan.threadId ? contactKeysByThread.get(orphan.threadId) : undefined;
+  threadContacts?.forEach((contactKey) => {
+    addEvidence(
+      contactKey,
+      threadContacts.size === 1 ? THREAD_WEIGHT : SHARED_THREAD_WEIGHT,
+      threadContacts.size === 1 ? "Same thread ID" : "Thread ID shared with other conversations"
+    );
+  });
+
+  const { previousContactKey, nextContactKey } = orphan;
+  if (previousContactKey && previousContactKey === nextContactKey) {
+    addEvidence(previousContactKey, BETWEEN_WEIGHT, "Between two records of this conversation in the file");
+  } else {
+    if (previousContactKey) {
+      addEvidence(previousContactKey, NEIGHBOUR_WEIGHT, "Follows a record of this conversation in the file");
+    }
+    if (nextContactKey) {
+      addEvidence(nextContactKey, NEIGHBOUR_WEIGHT, "Precedes a record of this conversation in the file");
+    }
+  }
+
+  if (orphan.hasTimestamp) {
+    const time = orphan.timestamp.getTime();
+    // Closest message and closest earlier message of every conversation in the window
+    const closest = new Map<string, number>();
+    const lastBefore = new Map<string, TimedMessage>();
+    for (let i = lowerBound(timeline, time - NEARBY_WINDOW_MS); i < timeline.length; i++) {
+      const entry = timeline[i];
+      if (entry.time > time + NEARBY_WINDOW_MS) break;
+      const gap = Math.abs(entry.time - time);
+      if (gap < (closest.get(entry.contactKey) ?? Infinity)) closest.set(entry.contactKey, gap);
+      if (entry.time <= time) lastBefore.set(entry.contactKey, entry);
+    }
+
+    closest.forEach((gap, contactKey) => {
+      addEvidence(contactKey, NEARBY_WEIGHT * (1 - gap / NEARBY_WINDOW_MS), `Message ${formatGap(gap)} away`);
+    });
+    lastBefore.forEach((entry, contactKey) => {
+      if (entry.isFromMe === orphan.isFromMe) return;
+      addEvidence(
+        contactKey,
+        REPLY_WEIGHT,
+        orphan.isFromMe ? "Replies to their last message" : "Answers my last message"
+      );
+    });
+  }
+
+  const ranked = Array.from(candidates.entries())
+    .map(([contactKey, { miss, reasons }]) => ({ contactKey, score: 1 - miss, reasons }))
+    .sort((a, b) => b.score - a.score);
+  const [best, runnerUp] = ranked;
+  if (!best) {
+    return { contactKey: null, attribution: { confidence: 0, reasons: ["Nothing links it to a conversation"] } };
+  }
+
+  // A runner-up costs less the stronger the best candidate already is
+  const confidence = Math.max(0, Math.min(1, best.score - (runnerUp ? runnerUp.score * (1 - best.score) : 0)));
+  const reasons = runnerUp
+    ? [...best.reasons, `Also fits ${runnerUp.contactKey}`]
+    : best.reasons;
+
+  return confidence >= ATTRIBUTION_THRESHOLD
+    ? { contactKey: best.contactKey, attribution: { confidence, reasons } }
+    : { contactKey: null, attribution: { confidence, reasons, suggestedContactId: best.contactKey } };
+};
+
+// Band shown by the marker next to an inferred message
+export const getConfidenceLevel = (confidence: number): "high" | "medium" | "low" =>
+  confidence >= 0.8 ? "high" : confidence >= ATTRIBUTION_THRESHOLD ? "medium" : "low";
+
+export const describeAttribution = (attribution: MessageAttribution): string => {
+  const percent = `${Math.round(attribution.confidence * 100)}%`;
+  const lead = attribution.suggestedContactId
+    ? `Could not be placed confidently. Best guess: ${attribution.suggestedContactId} (${percent})`
+    : `Conversation inferred, ${percent} confidence`;
+  return [lead, ...attribution.reasons].join("\n");
+};
@@ -1,28 +1,123 @@
-export const normalizePhoneNumber = (phone: string): string => {
-  if (!phone || typeof phone !== 'string') return '';
-
-  // Remove all non-numeric characters
-  const cleaned = phone.replace(/\D/g, '');
-
-  // Handle different country code formats
-  // For Maldives numbers (+960), normalize to include country code
-  if (cleaned.startsWith('960')) {
-    return cleaned; // Already has country code
-  } else if (cleaned.length === 7 && /^[0-9]{7}$/.test(cleaned)) {
-    // 7-digit local number, add Maldives country code
-    return '960' + cleaned;
-  } else if (cleaned.startsWith('0')) {
-    // Remove leading zero and add country code
-    return '960' + cleaned.substring(1);
-  } else if (cleaned.length >= 10) {
-    // International number, keep as is
-    return cleaned;
+import type { PhoneNumberKind } from '../types';
+
+export interface PhoneRegion {
+  // ISO 3166-1 alpha-2
+  code: string;
+  name: string;
+  callingCode: string;
+  // Trunk prefix dialled before national numbers ("0" in "0300 1234567"),
+  // empty when the country has none
+  nationalPrefix: string;
+  // Prefix for dialling out of the country
+  internationalPrefix: string;
+  // Lengths of the national number without trunk prefix
+  lengths: number[];
+}
+
+// Countries our exports come from. Numbers without a country code are read
+// with the default region's rules; numbers with one are matched against all.
+export const PHONE_REGIONS: PhoneRegion[] = [
+  { code: 'MV', name: 'Maldives', callingCode: '960', nationalPrefix: '', internationalPrefix: '00', lengths: [7] },
+  { code: 'IN', name: 'India', callingCode: '91', nationalPrefix: '0', internationalPrefix: '00', lengths: [10] },
+  { code: 'LK', name: 'Sri Lanka', callingCode: '94', nationalPrefix: '0', internationalPrefix: '00', lengths: [9] },
+  { code: 'BD', name: 'Bangladesh', callingCode: '880', nationalPrefix: '0', internationalPrefix: '00', lengths: [10] },
+  { code: 'PK', name: 'Pakistan', callingCode: '92', nationalPrefix: '0', internationalPrefix: '00', lengths: [10] },
+  { code: 'AE', name: 'United Arab Emirates', callingCode: '971', nationalPrefix: '0', internationalPrefix: '00', lengths: [8, 9] },
+  { code: 'SA', name: 'Saudi Arabia', callingCode: '966', nationalPrefix: '0', internationalPrefix: '00', lengths: [8, 9] },
+  { code: 'QA', name: 'Qatar', callingCode: '974', nationalPrefix: '', internationalPrefix: '00', lengths: [8] },
+  { code: 'MY', name: 'Malaysia', callingCode: '60', nationalPrefix: '0', internationalPrefix: '00', lengths: [9, 10] },
+  { code: 'SG', name: 'Singapore', callingCode: '65', nationalPrefix: '', internationalPrefix: '000', lengths: [8] },
+  { code: 'TH', name: 'Thailand', callingCode: '66', nationalPrefix: '0', internationalPrefix: '001', lengths: [8, 9] },
+  { code: 'CN', name: 'China', callingCode: '86', nationalPrefix: '0', internationalPrefix: '00', lengths: [10, 11] },
+  { code: 'AU', name: 'Australia', callingCode: '61', nationalPrefix: '0', internationalPrefix: '0011', lengths: [9] },
+  { code: 'GB', name: 'United Kingdom', callingCode: '44', nationalPrefix: '0', internationalPrefix: '00', lengths: [9, 10] },
+  { code: 'DE', name: 'Germany', callingCode: '49', nationalPrefix: '0', internationalPrefix: '00', lengths: [7, 8, 9, 10, 11] },
+  { code: 'FR', name: 'France', callingCode: '33', nationalPrefix: '0', internationalPrefix: '00', lengths: [9] },
+  // Italian numbers keep their leading zero after the country code
+  { code: 'IT', name: 'Italy', callingCode: '39', nationalPrefix: '', internationalPrefix: '00', lengths: [9, 10] },
+  { code: 'US', name: 'United States / Canada', callingCode: '1', nationalPrefix: '1', internationalPrefix: '011', lengths: [10] },
+];
+
+export const DEFAULT_PHONE_REGION = 'MV';
+
+const REGIONS_BY_CODE = new Map(PHONE_REGIONS.map(region => [region.code, region]));
+
+// Longest calling code first, so 960 is tried before a shorter code
+const REGIONS_BY_CALLING_CODE = [...PHONE_REGIONS].sort(
+  (a, b) => b.callingCode.length - a.callingCode.length
+);
+
+export const getPhoneRegion = (code: string): PhoneRegion =>
+  REGIONS_BY_CODE.get(code.toUpperCase()) || REGIONS_BY_CODE.get(DEFAULT_PHONE_REGION)!;
+
+export const isPhoneRegionCode = (code: string): boolean => REGIONS_BY_CODE.has(code.toUpperCase());
+
+// E.164 allows at most 15 digits including the country code
+const MAX_E164_DIGITS = 15;
+// Service numbers like "123" or "44556"
+const MAX_SHORT_CODE_DIGITS = 6;
+
+export interface ParsedPhoneNumber {
+  kind: PhoneNumberKind;
+  // "+9607781405" for numbers, digits for short codes, lowercased text for
+  // sender IDs; raw digits when nothing fits
+  normalized: string;
+}
+
+export const parsePhoneNumber = (
+  phone: string,
+  regionCode: string = DEFAULT_PHONE_REGION
+): ParsedPhoneNumber => {
+  if (!phone || typeof phone !== 'string') return { kind: 'unknown', normalized: '' };
+  const trimmed = phone.trim();
+
+  // Senders like "Ooredoo" or "BML" are names, not numbers with a few digits
+  if (/\p{L}/u.test(trimmed)) {
+    return { kind: 'senderId', normalized: trimmed.toLowerCase().replace(/\s+/g, ' ') };
+  }
+
+  const region = getPhoneRegion(regionCode);
+  let digits = trimmed.replace(/\D/g, '');
+  let isInternational = trimmed.startsWith('+');
+  if (!isInternational && digits.startsWith(region.internationalPrefix)) {
+    digits = digits.slice(region.internationalPrefix.length);
+    isInternational = true;
+  }
+  if (!digits) return { kind: 'unknown', normalized: '' };
+
+  if (isInternational) {
+    return digits.length <= MAX_E164_DIGITS
+      ? { kind: 'number', normalized: `+${digits}` }
+      : { kind: 'unknown', normalized: digits };
   }
 
-  // If none of the above, try to add 960 if it looks like a Maldivian number
-  if (cleaned.length === 7) {
-    return '960' + cleaned;
+  if (digits.length <= MAX_SHORT_CODE_DIGITS && digits.length < Math.min(...region.lengths)) {
+    return { kind: 'shortCode', normalized: digits };
   }
 
-  return cleaned;
-};
\ No newline at end of file
+  // National number, with or without the trunk prefix
+  const { nationalPrefix } = region;
+  if (
+    nationalPrefix &&
+    digits.startsWith(nationalPrefix) &&
+    region.lengths.includes(digits.length - nationalPrefix.length)
+  ) {
+    return { kind: 'number', normalized: `+${region.callingCode}${digits.slice(nationalPrefix.length)}` };
+  }
+  if (region.lengths.includes(digits.length)) {
+    return { kind: 'number', normalized: `+${region.callingCode}${digits}` };
+  }
+
+  // International number written without + or prefix, e.g. "9607781405"
+  const match = REGIONS_BY_CALLING_CODE.find(({ callingCode, lengths }) =>
+    digits.startsWith(callingCode) && lengths.includes(digits.length - callingCode.length)
+  );
+  if (match) return { kind: 'number', normalized: `+${digits}` };
+
+  return { kind: 'unknown', normalized: digits };
+};
+
+export const normalizePhoneNumber = (
+  phone: string,
+  regionCode: string = DEFAULT_PHONE_REGION
+): string => parsePhoneNumber(phone, regionCode).normalized;
@@ -0,0 +1,470 @@
+import type {
+  SearchHit,
+  SearchIndexContact,
+  SearchIndexMessage,
+  SearchOptions,
+  SearchResults,
+} from "../types";
+import {
+  collectPositiveTerms,
+  matchesContactName,
+  matchesMessage,
+  parseSearchQuery,
+  type QueryNode,
+} from "./searchQuery";
+import {
+  editDistance,
+  foldText,
+  isPhoneLike,
+  maxEditsFor,
+  normalizeDigits,
+  PHONE_RUN_PATTERN,
+} from "./textMatching";
+import { hasLatinLetters, transliterateToThaana } from "./thaanaUtils";
+import type { DisplayTimeZone } from "./timeZoneUtils";
+
+// Letters, digits and combining marks form words; everything else separates
+const WORD_PATTERN = /[\p{L}\p{N}\p{M}]+/gu;
+// Attachment names are indexed after the text, far enough away that a
+// phrase cannot run from the text into a file name
+const ATTACHMENT_POSITION_GAP = 1000;
+// How much a brand-new message outranks the oldest one with the same matches
+const RECENCY_WEIGHT = 0.5;
+
+interface Token {
+  term: string;
+  start: number;
+  end: number;
+}
+
+export const tokenizeText = (text: string): Token[] => {
+  const tokens: Token[] = [];
+  for (const match of text.matchAll(WORD_PATTERN)) {
+    tokens.push({
+      term: match[0].toLowerCase(),
+      start: match.index,
+      end: match.index + match[0].length,
+    });
+  }
+  return tokens;
+};
+
+// Documents containing one term, ascending, with the term's positions in each
+interface Posting {
+  docs: number[];
+  positions: number[][];
+}
+
+interface IndexedDoc {
+  contactIndex: number;
+  message: SearchIndexMessage;
+}
+
+export interface InvertedIndex {
+  contacts: SearchIndexContact[];
+  docs: IndexedDoc[];
+  postings: Map<string, Posting>;
+  // Every indexed term, sorted, for prefix lookups
+  terms: string[];
+  // Folded forms of the terms, built on the first accent-insensitive search
+  folded: FoldedTerms | null;
+  // Numbers written in message text, as normalised digits
+  phoneNumbers: Map<string, Posting>;
+  // Country whose rules apply to numbers written without a country code
+  region: string;
+  minTime: number;
+  maxTime: number;
+}
+
+interface FoldedTerms {
+  // Sorted, for prefix lookups like terms
+  keys: string[];
+  termsByKey: Map<string, string[]>;
+}
+
+export const buildInvertedIndex = (
+  contacts: SearchIndexContact[],
+  region: string
+): InvertedIndex => {
+  const docs: IndexedDoc[] = [];
+  const postings = new Map<string, Posting>();
+  const phoneNumbers = new Map<string, Posting>();
+  let minTime = Infinity;
+  let maxTime = -Infinity;
+
+  const addToken = (
+    term: string,
+    doc: number,
+    position: number,
+    target: Map<string, Posting> = postings
+  ) => {
+    let posting = target.get(term);
+    if (!posting) {
+      posting = { docs: [], positions: [] };
+      target.set(term, posting);
+    }
+    const last = posting.docs.length - 1;
+    if (last >= 0 && posting.docs[last] === doc) {
+      posting.positions[last].push(position);
+    } else {
+      posting.docs.push(doc);
+      posting.positions.push([position]);
+    }
+  };
+
+  contacts.forEach((contact, contactIndex) => {
+    contact.messages.forEach((message) => {
+      const doc = docs.length;
+      docs.push({ contactIndex, message });
+      minTime = Math.min(minTime, message.timestamp);
+      maxTime = Math.max(maxTime, message.timestamp);
+
+      const text = message.text || "";
+      const tokens = tokenizeText(text);
+      tokens.forEach((token, position) => addToken(token.term, doc, position));
+      // A number is filed under the position of its first token
+      let position = 0;
+      for (const match of text.matchAll(PHONE_RUN_PATTERN)) {
+        if (!isPhoneLike(match[0])) continue;
+        while (position < tokens.length && tokens[position].start < match.index) position++;
+        addToken(normalizeDigits(match[0], region), doc, position, phoneNumbers);
+      }
+      let offset = tokens.length + ATTACHMENT_POSITION_GAP;
+      message.attachmentNames.forEach((name) => {
+        const nameTokens = tokenizeText(name);
+        nameTokens.forEach((token, position) => addToken(token.term, doc, offset + position));
+        offset += nameTokens.length + ATTACHMENT_POSITION_GAP;
+      });
+    });
+  });
+
+  return {
+    contacts,
+    docs,
+    postings,
+    terms: Array.from(postings.keys()).sort(),
+    folded: null,
+    phoneNumbers,
+    region,
+    minTime,
+    maxTime,
+  };
+};
+
+// Entries of a sorted list starting with prefix
+const expandPrefix = (terms: string[], prefix: string): string[] => {
+  let low = 0;
+  let high = terms.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (terms[mid] < prefix) low = mid + 1;
+    else high = mid;
+  }
+  const result: string[] = [];
+  for (let i = low; i < terms.length && terms[i].startsWith(prefix); i++) {
+    result.push(terms[i]);
+  }
+  return result;
+};
+
+// Positions of term in doc, or undefined when the doc does not contain it
+const positionsInDoc = (posting: Posting, doc: number): number[] | undefined => {
+  let low = 0;
+  let high = posting.docs.length - 1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    const value = posting.docs[mid];
+    if (value === doc) return posting.positions[mid];
+    if (value < doc) low = mid + 1;
+    else high = mid - 1;
+  }
+  return undefined;
+};
+
+// Where a word or phrase occurs: doc -> start positions, plus how many
+// tokens long each occurrence is. Phone numbers instead carry the digits
+// to look for, as their length varies.
+interface TermMatches {
+  docs: Map<number, number[]>;
+  length: number;
+  phoneDigits?: string;
+}
+
+const getFoldedTerms = (index: InvertedIndex): FoldedTerms => {
+  if (index.folded) return index.folded;
+  const termsByKey = new Map<string, string[]>();
+  index.terms.forEach((term) => {
+    const key = foldText(term);
+    const terms = termsByKey.get(key);
+    if (terms) terms.push(term);
+    else termsByKey.set(key, [term]);
+  });
+  index.folded = { keys: Array.from(termsByKey.keys()).sort(), termsByKey };
+  return index.folded;
+};
+
+// Indexed terms a query word stands for: the word itself, or every term it
+// starts when asPrefix is set, loosened by the search options
+const expandWord = (
+  index: InvertedIndex,
+  word: string,
+  asPrefix: boolean,
+  options: SearchOptions
+): string[] => {
+  const folded = options.foldDiacritics ? getFoldedTerms(index) : null;
+  const key = folded ? foldText(word) : word;
+  const keys = folded ? folded.keys : index.terms;
+  const maxEdits = options.fuzzy ? maxEditsFor(key.length) : 0;
+
+  let matches: string[];
+  if (maxEdits > 0) {
+    matches = keys.filter((candidate) => editDistance(key, candidate, maxEdits, asPrefix) <= maxEdits);
+  } else if (asPrefix) {
+    matches = expandPrefix(keys, key);
+  } else {
+    matches = folded ? [key] : [word];
+  }
+
+  if (!folded) return matches.filter((term) => index.postings.has(term));
+  return matches.flatMap((match) => folded.termsByKey.get(match) || []);
+};
+
+// Docs mentioning a number whose digits contain the query's digits
+const findPhoneNumber = (index: InvertedIndex, value: string): TermMatches => {
+  const digits = normalizeDigits(value, index.region);
+  const docs = new Map<number, number[]>();
+  index.phoneNumbers.forEach((posting, number) => {
+    if (!number.includes(digits)) return;
+    posting.docs.forEach((doc, i) => {
+      const existing = docs.get(doc);
+      if (existing) existing.push(...posting.positions[i]);
+      else docs.set(doc, [...posting.positions[i]]);
+    });
+  });
+  return { docs, length: 1, phoneDigits: digits };
+};
+
+const findTerm = (index: InvertedIndex, value: string, options: SearchOptions): TermMatches => {
+  if (options.phoneDigits && isPhoneLike(value)) return findPhoneNumber(index, value);
+
+  const matches = findWords(index, value, options);
+  if (!options.transliterate || !hasLatinLetters(value)) return matches;
+
+  // Either spelling counts; transliteration keeps the word count, so the
+  // occurrence length is shared
+  const thaanaMatches = findWords(index, transliterateToThaana(value), options);
+  thaanaMatches.docs.forEach((starts, doc) => {
+    const existing = matches.docs.get(doc);
+    if (existing) existing.push(...starts.filter((start) => !existing.includes(start)));
+    else matches.docs.set(doc, starts);
+  });
+  return matches;
+};
+
+// A word matches indexed terms by prefix. A phrase needs its words at
+// consecutive positions, the last one again by prefix.
+const findWords = (index: InvertedIndex, value: string, options: SearchOptions): TermMatches => {
+  const words = tokenizeText(value).map((token) => token.term);
+  const docs = new Map<number, number[]>();
+  if (words.length === 0) return { docs, length: 0 };
+
+  const postingsByWord = words.map((word, i) =>
+    expandWord(index, word, i === words.length - 1, options)
+      .map((term) => index.postings.get(term)!)
+  );
+  if (postingsByWord.some((postings) => postings.length === 0)) {
+    return { docs, length: words.length };
+  }
+
+  // Every position of the first word, per doc
+  const [firstPostings, ...restPostings] = postingsByWord;
+  firstPostings.forEach((posting) => {
+    posting.docs.forEach((doc, i) => {
+      const existing = docs.get(doc);
+      if (existing) existing.push(...posting.positions[i]);
+      else docs.set(doc, [...posting.positions[i]]);
+    });
+  });
+  if (restPostings.length === 0) return { docs, length: 1 };
+
+  docs.forEach((firstPositions, doc) => {
+    const restPositions = restPostings.map((postings) => {
+      const positions = new Set<number>();
+      postings.forEach((posting) => {
+        positionsInDoc(posting, doc)?.forEach((position) => positions.add(position));
+      });
+      return positions;
+    });
+    const starts = restPositions.some((positions) => positions.size === 0)
+      ? []
+      : firstPositions.filter((start) =>
+        restPositions.every((positions, offset) => positions.has(start + offset + 1))
+      );
+    if (starts.length > 0) docs.set(doc, starts);
+    else docs.delete(doc);
+  });
+
+  return { docs, length: words.length };
+};
+
+// Docs that could match, from the words the query requires; null when the
+// query has to be checked against every doc (e.g. NOT, filters, regexes)
+const findCandidates = (
+  node: QueryNode,
+  lookup: (value: string) => TermMatches
+): Set<number> | null => {
+  switch (node.kind) {
+    case "term":
+      return new Set(lookup(node.value).docs.keys());
+    case "and": {
+      const childCandidates = node.children
+        .map((child) => findCandidates(child, lookup))
+        .filter((candidates): candidates is Set<number> => candidates !== null);
+      if (childCandidates.length === 0) return null;
+      const [first, ...rest] = childCandidates;
+      return new Set([...first].filter((doc) => rest.every((candidates) => candidates.has(doc))));
+    }
+    case "or": {
+      const result = new Set<number>();
+      for (const child of node.children) {
+        const candidates = findCandidates(child, lookup);
+        if (!candidates) return null;
+        candidates.forEach((doc) => result.add(doc));
+      }
+      return result;
+    }
+    default:
+      return null;
+  }
+};
+
+export const searchInvertedIndex = (
+  index: InvertedIndex,
+  query: string,
+  options: SearchOptions,
+  timeZone: DisplayTimeZone
+): SearchResults => {
+  const root = parseSearchQuery(query);
+  if (!root) return { contactIds: [], hits: [] };
+
+  const cache = new Map<string, TermMatches>();
+  const lookup = (value: string) => {
+    let matches = cache.get(value);
+    if (!matches) {
+      matches = findTerm(index, value, options);
+      cache.set(value, matches);
+    }
+    return matches;
+  };
+
+  const candidates = findCandidates(root, lookup);
+  const docIds = candidates
+    ? Array.from(candidates).sort((a, b) => a - b)
+    : index.docs.map((_, doc) => doc);
+
+  const { terms, regexes } = collectPositiveTerms(root);
+  const termMatches = terms.map(lookup);
+  const docCount = Math.max(1, index.docs.length);
+  const timeSpan = index.maxTime - index.minTime;
+
+  const hits: SearchHit[] = [];
+  docIds.forEach((doc) => {
+    const { contactIndex, message } = index.docs[doc];
+    const contact = index.contacts[contactIndex];
+    const isMatch = matchesMessage(
+      root,
+      message,
+      contact,
+      (value) => lookup(value).docs.has(doc),
+      options,
+      index.region,
+      timeZone
+    );
+    if (!isMatch) return;
+
+    // tf-idf over the words the query asked for, then favour recent messages
+    let relevance = 0;
+    termMatches.forEach(({ docs }) => {
+      const starts = docs.get(doc);
+      if (!starts) return;
+      relevance += (1 + Math.log(starts.length)) * Math.log(1 + docCount / docs.size);
+    });
+    if (termMatches.length === 0) relevance = 1;
+    const recency = timeSpan > 0 ? (message.timestamp - index.minTime) / timeSpan : 1;
+
+    hits.push({
+      contactId: contact.contactId,
+      messageId: message.id,
+      score: relevance * (1 + RECENCY_WEIGHT * recency),
+      highlights: findHighlights(message.text || "", doc, termMatches, regexes, index.region),
+    });
+  });
+
+  hits.sort((a, b) => b.score - a.score);
+
+  // Name and number matches first, then conversations by their best hit
+  const contactIds: string[] = [];
+  const seen = new Set<string>();
+  index.contacts.forEach((contact) => {
+    // A query made only of NOT would otherwise match almost every name
+    if (terms.length > 0 && matchesContactName(root, contact, options, index.region)) {
+      contactIds.push(contact.contactId);
+      seen.add(contact.contactId);
+    }
+  });
+  hits.forEach(({ contactId }) => {
+    if (seen.has(contactId)) return;
+    contactIds.push(contactId);
+    seen.add(contactId);
+  });
+
+  return { contactIds, hits };
+};
+
+// Character ranges of the matched words and regexes in the message text,
+// sorted and merged where they overlap
+const findHighlights = (
+  text: string,
+  doc: number,
+  termMatches: TermMatches[],
+  regexes: RegExp[],
+  region: string
+): [number, number][] => {
+  const ranges: [number, number][] = [];
+  let tokens: Token[] | null = null;
+
+  termMatches.forEach(({ docs, length, phoneDigits }) => {
+    const starts = docs.get(doc);
+    if (!starts) return;
+    if (phoneDigits !== undefined) {
+      for (const match of text.matchAll(PHONE_RUN_PATTERN)) {
+        if (normalizeDigits(match[0], region).includes(phoneDigits)) {
+          ranges.push([match.index, match.index + match[0].length]);
+        }
+      }
+      return;
+    }
+    tokens ??= tokenizeText(text);
+    starts.forEach((start) => {
+      const last = start + length - 1;
+      // Positions past the text belong to attachment names
+      if (last < tokens!.length) ranges.push([tokens![start].start, tokens![last].end]);
+    });
+  });
+
+  regexes.forEach((regex) => {
+    const global = new RegExp(regex.source, regex.flags.includes("g") ? regex.flags : `${regex.flags}g`);
+    for (const match of text.matchAll(global)) {
+      if (match[0].length > 0) ranges.push([match.index, match.index + match[0].length]);
+    }
+  });
+
+  ranges.sort((a, b) => a[0] - b[0]);
+  const merged: [number, number][] = [];
+  ranges.forEach((range) => {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) last[1] = Math.max(last[1], range[1]);
+    else merged.push([range[0], range[1]]);
+  });
+  return merged;
+};
@@ -0,0 +1,521 @@
+import type { SearchIndexContact, SearchIndexMessage, SearchOptions } from "../types";
+import { editDistance, foldText, isPhoneLike, maxEditsFor, normalizeDigits } from "./textMatching";
+import { hasLatinLetters, transliterateToThaana } from "./thaanaUtils";
+import { getDayKey } from "./messageUtils";
+import { resolveZone, type DisplayTimeZone } from "./timeZoneUtils";
+
+// Query language used by the search worker:
+//   hello world          both words (implicit AND); words match by prefix
+//   "see you soon"       exact phrase
+//   cat OR dog, NOT cat  boolean operators (uppercase), -cat negates too
+//   ( ... )              grouping
+//   from:me / to:me      sent / received; from:alice received from a contact
+//   contact:alice        contact name or number
+//   before:2014-06-01    earlier than that day (YYYY, YYYY-MM or YYYY-MM-DD),
+//                        in the zone messages are displayed in
+//   after:2014-06-01     on or after that day
+//   type:call            call, message, sms, im, deleted, attachment or location
+//   /colou?r/            regular expression, case-insensitive unless flags are given
+//   +960 778 1405        a phone number is one term, not three words
+export type QueryNode =
+  | { kind: "and"; children: QueryNode[] }
+  | { kind: "or"; children: QueryNode[] }
+  | { kind: "not"; child: QueryNode }
+  | { kind: "term"; value: string }
+  | { kind: "regex"; regex: RegExp }
+  | { kind: "direction"; fromMe: boolean; contact: string }
+  | { kind: "contact"; value: string }
+  // day is a "YYYY-MM-DD" key, see getDayKey
+  | { kind: "before"; day: string }
+  | { kind: "after"; day: string }
+  | { kind: "type"; value: MessageKind };
+
+type MessageKind = "call" | "message" | "sms" | "im" | "deleted" | "attachment" | "location";
+
+const MESSAGE_KINDS: Record<string, MessageKind> = {
+  call: "call",
+  calls: "call",
+  message: "message",
+  messages: "message",
+  sms: "sms",
+  im: "im",
+  chat: "im",
+  deleted: "deleted",
+  attachment: "attachment",
+  attachments: "attachment",
+  media: "attachment",
+  location: "location",
+};
+
+type Token =
+  | { kind: "open" }
+  | { kind: "close" }
+  | { kind: "and" }
+  | { kind: "or" }
+  | { kind: "not" }
+  | { kind: "atom"; node: QueryNode };
+
+const REGEX_FLAGS = /^[imsu]*$/;
+
+// Reads /pattern/flags starting at start; null when it is not a valid regex
+const readRegex = (query: string, start: number): { regex: RegExp; end: number } | null => {
+  let i = start + 1;
+  let escaped = false;
+  for (; i < query.length; i++) {
+    const char = query[i];
+    if (escaped) escaped = false;
+    else if (char === "\\") escaped = true;
+    else if (char === "/") break;
+  }
+  if (i >= query.length || i === start + 1) return null;
+
+  const pattern = query.slice(start + 1, i);
+  let end = i + 1;
+  while (end < query.length && /[a-z]/i.test(query[end])) end++;
+  const flags = query.slice(i + 1, end);
+  if (end < query.length && !/[\s()]/.test(query[end])) return null;
+  if (!REGEX_FLAGS.test(flags)) return null;
+
+  try {
+    return { regex: new RegExp(pattern, flags || "i"), end };
+  } catch {
+    return null;
+  }
+};
+
+// Reads a quoted string or a bare word starting at start
+const readValue = (query: string, start: number): { value: string; end: number } => {
+  if (query[start] === '"') {
+    const close = query.indexOf('"', start + 1);
+    const end = close === -1 ? query.length : close;
+    return { value: query.slice(start + 1, end), end: Math.min(query.length, end + 1) };
+  }
+  let end = start;
+  while (end < query.length && !/[\s()]/.test(query[end])) end++;
+  return { value: query.slice(start, end), end };
+};
+
+// A phone number starts with + or a short group ("778 1405"); "2014 2015"
+// stays two words. Number groups may then follow.
+const PHONE_START = /^(?:\+\d[\d\-().]*|\d{1,3})$/;
+const PHONE_GROUP = /^[\d\-().]*\d[\d\-().]*$/;
+
+// Extends a bare word starting a phone number over the groups that follow it
+const readPhoneNumber = (
+  query: string,
+  word: { value: string; end: number }
+): { value: string; end: number } => {
+  let { value, end } = word;
+  if (!PHONE_START.test(value)) return word;
+  for (;;) {
+    const match = query.slice(end).match(/^\s+([^\s()]+)/);
+    if (!match || !PHONE_GROUP.test(match[1])) return { value, end };
+    value += ` ${match[1]}`;
+    end += match[0].length;
+  }
+};
+
+// First day of a YYYY, YYYY-MM or YYYY-MM-DD period as a day key. It is
+// compared with each message's day in the display zone, so it means the
+// same day the thread's date dividers show.
+const parseQueryDate = (value: string): string | null => {
+  const match = value.match(/^(\d{4})(?:[-/.](\d{1,2})(?:[-/.](\d{1,2}))?)?$/);
+  if (!match) return null;
+  const year = parseInt(match[1], 10);
+  const month = match[2] ? parseInt(match[2], 10) - 1 : 0;
+  const day = match[3] ? parseInt(match[3], 10) : 1;
+  if (month < 0 || month > 11 || day < 1 || day > 31) return null;
+  return `${year}-${String(month + 1).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+};
+
+// Turns field:value into a node, or null for unknown fields and bad values
+const createFieldNode = (field: string, value: string): QueryNode | null => {
+  const lowerValue = value.toLowerCase().trim();
+  if (!lowerValue) return null;
+
+  switch (field) {
+    case "from":
+    case "to": {
+      const isMe = lowerValue === "me";
+      // from:me and to:<someone> are sent messages
+      const fromMe = field === "from" ? isMe : !isMe;
+      return { kind: "direction", fromMe, contact: isMe ? "" : lowerValue };
+    }
+    case "contact":
+      return { kind: "contact", value: lowerValue };
+    case "before": {
+      const day = parseQueryDate(lowerValue);
+      return day === null ? null : { kind: "before", day };
+    }
+    case "after": {
+      const day = parseQueryDate(lowerValue);
+      return day === null ? null : { kind: "after", day };
+    }
+    case "type": {
+      const kind = MESSAGE_KINDS[lowerValue];
+      return kind ? { kind: "type", value: kind } : null;
+    }
+    default:
+      return null;
+  }
+};
+
+const tokenize = (query: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < query.length) {
+    const char = query[i];
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+    if (char === "(") {
+      tokens.push({ kind: "open" });
+      i++;
+      continue;
+    }
+    if (char === ")") {
+      tokens.push({ kind: "close" });
+      i++;
+      continue;
+    }
+    if (char === "-" && i + 1 < query.length && !/[\s-]/.test(query[i + 1])) {
+      tokens.push({ kind: "not" });
+      i++;
+      continue;
+    }
+    if (char === "/") {
+      const regex = readRegex(query, i);
+      if (regex) {
+        tokens.push({ kind: "atom", node: { kind: "regex", regex: regex.regex } });
+        i = regex.end;
+        continue;
+      }
+    }
+    if (char === '"') {
+      const { value, end } = readValue(query, i);
+      if (value.trim()) {
+        tokens.push({ kind: "atom", node: { kind: "term", value: value.toLowerCase() } });
+      }
+      i = end;
+      continue;
+    }
+
+    const fieldMatch = query.slice(i).match(/^([a-z]+):(?=\S)/i);
+    if (fieldMatch) {
+      const { value, end } = readValue(query, i + fieldMatch[0].length);
+      const node = createFieldNode(fieldMatch[1].toLowerCase(), value);
+      if (node) {
+        tokens.push({ kind: "atom", node });
+        i = end;
+        continue;
+      }
+    }
+
+    const { value, end } = readPhoneNumber(query, readValue(query, i));
+    if (value === "AND") tokens.push({ kind: "and" });
+    else if (value === "OR") tokens.push({ kind: "or" });
+    else if (value === "NOT") tokens.push({ kind: "not" });
+    else tokens.push({ kind: "atom", node: { kind: "term", value: value.toLowerCase() } });
+    i = end;
+  }
+
+  return tokens;
+};
+
+// Recursive descent: or := and (OR and)*, and := unary (AND? unary)*,
+// unary := NOT unary | primary, primary := ( or ) | atom.
+// Stray operators and unbalanced parentheses are tolerated.
+export const parseSearchQuery = (query: string): QueryNode | null => {
+  const tokens = tokenize(query);
+  let position = 0;
+
+  const parseOr = (): QueryNode | null => {
+    const children: QueryNode[] = [];
+    for (;;) {
+      const node = parseAnd();
+      if (node) children.push(node);
+      if (tokens[position]?.kind !== "or") break;
+      position++;
+    }
+    if (children.length === 0) return null;
+    return children.length === 1 ? children[0] : { kind: "or", children };
+  };
+
+  const parseAnd = (): QueryNode | null => {
+    const children: QueryNode[] = [];
+    while (position < tokens.length) {
+      const token = tokens[position];
+      if (token.kind === "or" || token.kind === "close") break;
+      if (token.kind === "and") {
+        position++;
+        continue;
+      }
+      const node = parseUnary();
+      if (node) children.push(node);
+    }
+    if (children.length === 0) return null;
+    return children.length === 1 ? children[0] : { kind: "and", children };
+  };
+
+  const parseUnary = (): QueryNode | null => {
+    const token = tokens[position];
+    if (token.kind === "not") {
+      position++;
+      if (position >= tokens.length) return null;
+      const child = parseUnary();
+      return child ? { kind: "not", child } : null;
+    }
+    position++;
+    if (token.kind === "open") {
+      const node = parseOr();
+      if (tokens[position]?.kind === "close") position++;
+      return node;
+    }
+    if (token.kind === "atom") return token.node;
+    return null;
+  };
+
+  const root = parseOr();
+  // Skip unmatched closing parentheses and keep parsing what follows
+  while (position < tokens.length) {
+    position++;
+    const rest = parseOr();
+    if (rest && root) return { kind: "and", children: [root, rest] };
+    if (rest) return rest;
+  }
+  return root;
+};
+
+export const DEFAULT_SEARCH_OPTIONS: SearchOptions = {
+  fuzzy: false,
+  foldDiacritics: false,
+  phoneDigits: false,
+  transliterate: false,
+};
+
+// Every word of value is close to the start of some word of name
+const fuzzyNameMatches = (name: string, value: string): boolean => {
+  const nameWords = name.split(/\s+/);
+  return value.split(/\s+/).every((word) => {
+    const maxEdits = maxEditsFor(word.length);
+    return nameWords.some((nameWord) => editDistance(word, nameWord, maxEdits, true) <= maxEdits);
+  });
+};
+
+// region is the country whose rules apply to numbers without a country code
+const contactMatches = (
+  contact: SearchIndexContact,
+  value: string,
+  options: SearchOptions,
+  region: string
+): boolean => {
+  const name = options.foldDiacritics ? foldText(contact.name) : contact.name.toLowerCase();
+  const nameQuery = options.foldDiacritics ? foldText(value) : value;
+  if (name.includes(nameQuery)) return true;
+  if (options.fuzzy && fuzzyNameMatches(name, nameQuery)) return true;
+  if (options.transliterate && hasLatinLetters(value) && name.includes(transliterateToThaana(value))) {
+    return true;
+  }
+  if (contact.phone.toLowerCase().includes(value)) return true;
+  // "0778 1405" and "+9607781405" are the same number once normalised;
+  // contactId is already E.164 for numbers
+  if (options.phoneDigits && isPhoneLike(value)) {
+    const digits = normalizeDigits(value, region);
+    return normalizeDigits(contact.contactId, region).includes(digits) ||
+      normalizeDigits(contact.phone, region).includes(digits);
+  }
+  // Compare digits only so "+960 778" finds "9607781405", whether the
+  // export wrote the number with its country code or not
+  const digits = value.replace(/\D/g, "");
+  return digits.length >= 3 && (
+    contact.phone.replace(/\D/g, "").includes(digits) ||
+    contact.contactId.replace(/\D/g, "").includes(digits)
+  );
+};
+
+// Evaluates the query against one message. Word and phrase lookups are left
+// to hasTerm so the caller can answer them from an index. timeZone is the
+// display setting that before: and after: days are read in.
+export const matchesMessage = (
+  node: QueryNode,
+  message: SearchIndexMessage,
+  contact: SearchIndexContact,
+  hasTerm: (value: string) => boolean,
+  options: SearchOptions,
+  region: string,
+  timeZone: DisplayTimeZone
+): boolean => {
+  const matchesChild = (child: QueryNode) =>
+    matchesMessage(child, message, contact, hasTerm, options, region, timeZone);
+  const messageDay = () =>
+    getDayKey(new Date(message.timestamp), resolveZone(timeZone, message.utcOffset));
+  switch (node.kind) {
+    case "and":
+      return node.children.every(matchesChild);
+    case "or":
+      return node.children.some(matchesChild);
+    case "not":
+      return !matchesChild(node.child);
+    case "term":
+      return hasTerm(node.value);
+    case "regex":
+      return node.regex.test(message.text) ||
+        message.attachmentNames.some((name) => node.regex.test(name));
+    case "direction":
+      return message.isFromMe === node.fromMe &&
+        (!node.contact || contactMatches(contact, node.contact, options, region));
+    case "contact":
+      return contactMatches(contact, node.value, options, region);
+    case "before":
+      return messageDay() < node.day;
+    case "after":
+      return messageDay() >= node.day;
+    case "type":
+      switch (node.value) {
+        case "call":
+          return message.isCallLog;
+        case "message":
+          return !message.isCallLog;
+        case "sms":
+        case "im":
+          return message.channel === node.value;
+        case "deleted":
+          return message.isDeleted;
+        case "attachment":
+          return message.hasAttachments;
+        case "location":
+          return message.hasLocation;
+      }
+  }
+};
+
+// A conversation also matches on its own name or number, but only for
+// queries made of plain words and phrases
+export const matchesContactName = (
+  node: QueryNode,
+  contact: SearchIndexContact,
+  options: SearchOptions,
+  region: string
+): boolean => {
+  switch (node.kind) {
+    case "and":
+      return node.children.every((child) => matchesContactName(child, contact, options, region));
+    case "or":
+      return node.children.some((child) => matchesContactName(child, contact, options, region));
+    case "not":
+      return isPlainQuery(node.child) && !matchesContactName(node.child, contact, options, region);
+    case "term":
+      return contactMatches(contact, node.value, options, region);
+    default:
+      return false;
+  }
+};
+
+const isPlainQuery = (node: QueryNode): boolean => {
+  switch (node.kind) {
+    case "and":
+    case "or":
+      return node.children.every(isPlainQuery);
+    case "not":
+      return isPlainQuery(node.child);
+    case "term":
+      return true;
+    default:
+      return false;
+  }
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Words, phrases and regexes a result is expected to contain; anything under
+// NOT is left out
+export const collectPositiveTerms = (root: QueryNode): { terms: string[]; regexes: RegExp[] } => {
+  const terms: string[] = [];
+  const regexes: RegExp[] = [];
+  const collect = (node: QueryNode, negated: boolean) => {
+    switch (node.kind) {
+      case "and":
+      case "or":
+        node.children.forEach((child) => collect(child, negated));
+        break;
+      case "not":
+        collect(node.child, !negated);
+        break;
+      case "term":
+        if (!negated) terms.push(node.value);
+        break;
+      case "regex":
+        if (!negated) regexes.push(node.regex);
+        break;
+    }
+  };
+  collect(root, false);
+  return { terms, regexes };
+};
+
+// Pattern matching what a result should highlight, null when there is
+// nothing to highlight
+export const buildHighlightPattern = (query: string): RegExp | null => {
+  const root = parseSearchQuery(query);
+  if (!root) return null;
+
+  const { terms, regexes } = collectPositiveTerms(root);
+  const sources = [
+    ...terms.map(escapeRegExp),
+    ...regexes.map((regex) => regex.source),
+  ];
+
+  if (sources.length === 0) return null;
+  // Longest first so a phrase wins over a word inside it
+  sources.sort((a, b) => b.length - a.length);
+  try {
+    return new RegExp(`(${sources.join("|")})`, "gi");
+  } catch {
+    return null;
+  }
+};
+
+const SNIPPET_CONTEXT = 20;
+const SNIPPET_LENGTH = 60;
+
+// Cuts the text around the first highlight and shifts the highlights to match
+export const createSnippet = (
+  text: string,
+  highlights: [number, number][]
+): { snippet: string; highlights: [number, number][] } => {
+  const first = highlights[0];
+  const start = first ? Math.max(0, first[0] - SNIPPET_CONTEXT) : 0;
+  const end = first
+    ? Math.min(text.length, first[1] + SNIPPET_CONTEXT)
+    : Math.min(text.length, SNIPPET_LENGTH);
+  const prefix = start > 0 ? "…" : "";
+  const suffix = end < text.length ? "…" : "";
+  return {
+    snippet: prefix + text.slice(start, end) + suffix,
+    highlights: highlights
+      .filter(([from, to]) => from < end && to > start)
+      .map(([from, to]): [number, number] => [
+        Math.max(from, start) - start + prefix.length,
+        Math.min(to, end) - start + prefix.length,
+      ]),
+  };
+};
+
+// Every case-insensitive occurrence of query in text as [start, end) ranges
+export const findTextOccurrences = (text: string, query: string): [number, number][] => {
+  const ranges: [number, number][] = [];
+  const needle = query.toLowerCase();
+  if (!needle) return ranges;
+  const haystack = text.toLowerCase();
+  // Lowercasing can change the length of some characters; offsets would drift
+  if (haystack.length !== text.length) return ranges;
+
+  let index = haystack.indexOf(needle);
+  while (index !== -1) {
+    ranges.push([index, index + needle.length]);
+    index = haystack.indexOf(needle, index + needle.length);
+  }
+  return ranges;
+};
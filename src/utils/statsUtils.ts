@@ -0,0 +1,145 @@
+import type { Message } from "../types";
+import { getZonedParts } from "./timeZoneUtils";
+import type { ZoneSpec } from "./timeZoneUtils";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Longer pauses start a new exchange rather than count as a slow reply
+const MAX_REPLY_GAP_MS = 3 * DAY_MS;
+
+const MAX_SILENCES = 5;
+
+export interface MonthActivity {
+  year: number;
+  // 0-based, like Date.getMonth()
+  month: number;
+  sent: number;
+  received: number;
+}
+
+export interface Silence {
+  // Last message before the gap and first one after it
+  from: Message;
+  to: Message;
+  duration: number;
+}
+
+export interface MessageStats {
+  // Text messages, without call log entries
+  sent: number;
+  received: number;
+  outgoingCalls: number;
+  incomingCalls: number;
+  first: Message | null;
+  last: Message | null;
+  // Every month from the first message to the last, empty ones included
+  months: MonthActivity[];
+  // [weekday][hour] message counts, weekday 0 = Sunday
+  heatmap: number[][];
+  // Mean time to answer the other side, in ms; null when that side never replied
+  myResponseTime: number | null;
+  theirResponseTime: number | null;
+  // Longest gaps between any two messages, longest first
+  silences: Silence[];
+}
+
+// Statistics over one or more conversations, each sorted by time. Months and
+// the heatmap count calls as well as messages and follow the display time zone.
+export const computeMessageStats = (
+  conversations: Message[][],
+  zoneFor: (sourceOffsetMinutes?: number) => ZoneSpec = () => ({})
+): MessageStats => {
+  const stats: MessageStats = {
+    sent: 0,
+    received: 0,
+    outgoingCalls: 0,
+    incomingCalls: 0,
+    first: null,
+    last: null,
+    months: [],
+    heatmap: Array.from({ length: 7 }, () => new Array<number>(24).fill(0)),
+    myResponseTime: null,
+    theirResponseTime: null,
+    silences: [],
+  };
+  const monthCounts = new Map<number, MonthActivity>();
+  const replies = { mine: { total: 0, count: 0 }, theirs: { total: 0, count: 0 } };
+
+  conversations.forEach((messages) => {
+    let previousText: Message | null = null;
+    messages.forEach((message) => {
+      if (message.isCallLog) {
+        if (message.isFromMe) stats.outgoingCalls++;
+        else stats.incomingCalls++;
+      } else {
+        if (message.isFromMe) stats.sent++;
+        else stats.received++;
+
+        // A reply is the first message after one from the other side
+        if (previousText && previousText.isFromMe !== message.isFromMe) {
+          const gap = message.timestamp.getTime() - previousText.timestamp.getTime();
+          if (gap >= 0 && gap <= MAX_REPLY_GAP_MS) {
+            const side = message.isFromMe ? replies.mine : replies.theirs;
+            side.total += gap;
+            side.count++;
+          }
+        }
+        previousText = message;
+      }
+
+      if (!stats.first || message.timestamp < stats.first.timestamp) stats.first = message;
+      if (!stats.last || message.timestamp > stats.last.timestamp) stats.last = message;
+
+      const parts = getZonedParts(message.timestamp, zoneFor(message.utcOffset));
+      stats.heatmap[parts.weekday][parts.hour]++;
+      const monthKey = parts.year * 12 + parts.month;
+      let activity = monthCounts.get(monthKey);
+      if (!activity) {
+        activity = { year: parts.year, month: parts.month, sent: 0, received: 0 };
+        monthCounts.set(monthKey, activity);
+      }
+      if (message.isFromMe) activity.sent++;
+      else activity.received++;
+    });
+  });
+
+  if (monthCounts.size > 0) {
+    const keys = Array.from(monthCounts.keys());
+    const firstKey = Math.min(...keys);
+    const lastKey = Math.max(...keys);
+    for (let key = firstKey; key <= lastKey; key++) {
+      stats.months.push(
+        monthCounts.get(key) || { year: Math.floor(key / 12), month: key % 12, sent: 0, received: 0 }
+      );
+    }
+  }
+
+  stats.myResponseTime = replies.mine.count > 0 ? replies.mine.total / replies.mine.count : null;
+  stats.theirResponseTime = replies.theirs.count > 0 ? replies.theirs.total / replies.theirs.count : null;
+
+  // Gaps over the combined timeline, so a dataset's silences are times
+  // nobody was written to
+  const timeline = conversations.flat().sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  const silences: Silence[] = [];
+  for (let i = 1; i < timeline.length; i++) {
+    const duration = timeline[i].timestamp.getTime() - timeline[i - 1].timestamp.getTime();
+    if (duration > 0) silences.push({ from: timeline[i - 1], to: timeline[i], duration });
+  }
+  stats.silences = silences.sort((a, b) => b.duration - a.duration).slice(0, MAX_SILENCES);
+
+  return stats;
+};
+
+// "45 s", "12 min", "3 h 5 min", "4 days"
+export const formatDuration = (ms: number): string => {
+  if (ms < 60 * 1000) return `${Math.round(ms / 1000)} s`;
+  if (ms < HOUR_MS) return `${Math.round(ms / 60000)} min`;
+  if (ms < DAY_MS) {
+    const hours = Math.floor(ms / HOUR_MS);
+    const minutes = Math.round((ms % HOUR_MS) / 60000);
+    return minutes > 0 && minutes < 60 ? `${hours} h ${minutes} min` : `${Math.round(ms / HOUR_MS)} h`;
+  }
+  const days = Math.round(ms / DAY_MS);
+  return `${days} day${days === 1 ? "" : "s"}`;
+};
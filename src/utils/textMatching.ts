@@ -0,0 +1,87 @@
+import { DEFAULT_PHONE_REGION, normalizePhoneNumber } from "./phoneUtils";
+
+// Combining marks that carry meaning and must survive folding: Thaana vowel
+// signs (fili) and sukun
+const KEPT_MARKS = /[\u07A6-\u07B0]/;
+
+// Case- and diacritic-insensitive form: "Café" and "cafe" fold to the same
+// text. Lengths can change, so never use folded offsets on the original.
+export const foldText = (text: string): string =>
+  text
+    .normalize("NFD")
+    .replace(/\p{M}/gu, (mark) => (KEPT_MARKS.test(mark) ? mark : ""))
+    .toLowerCase()
+    .normalize("NFC");
+
+// Edits allowed for a fuzzy word: none for very short words, where almost
+// everything would be one edit away
+export const maxEditsFor = (length: number): number => {
+  if (length < 4) return 0;
+  if (length < 8) return 1;
+  return 2;
+};
+
+// Optimal string alignment distance (Levenshtein plus adjacent swaps).
+// With asPrefix the best match against any prefix of target is returned,
+// so "tomor" is close to "tomorrow". Returns Infinity once the distance
+// is certain to exceed maxEdits.
+export const editDistance = (
+  query: string,
+  target: string,
+  maxEdits: number,
+  asPrefix = false
+): number => {
+  if (asPrefix ? target.length < query.length - maxEdits : Math.abs(query.length - target.length) > maxEdits) {
+    return Infinity;
+  }
+
+  // Rows are query positions, columns target positions
+  let previousRow: number[] = [];
+  let row: number[] = Array.from({ length: target.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= query.length; i++) {
+    const beforePrevious = previousRow;
+    previousRow = row;
+    row = [i];
+    let rowMin = i;
+    for (let j = 1; j <= target.length; j++) {
+      const cost = query[i - 1] === target[j - 1] ? 0 : 1;
+      let value = Math.min(
+        previousRow[j] + 1,
+        row[j - 1] + 1,
+        previousRow[j - 1] + cost
+      );
+      if (
+        i > 1 && j > 1 &&
+        query[i - 1] === target[j - 2] &&
+        query[i - 2] === target[j - 1]
+      ) {
+        value = Math.min(value, beforePrevious[j - 2] + 1);
+      }
+      row.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > maxEdits) return Infinity;
+  }
+
+  const distance = asPrefix ? Math.min(...row) : row[target.length];
+  return distance <= maxEdits ? distance : Infinity;
+};
+
+// Digits, spaces and phone punctuation with enough digits to be a number
+const PHONE_LIKE = /^\+?[\d\s\-().]+$/;
+const MIN_PHONE_DIGITS = 4;
+
+export const isPhoneLike = (value: string): boolean =>
+  PHONE_LIKE.test(value.trim()) && value.replace(/\D/g, "").length >= MIN_PHONE_DIGITS;
+
+// Digits of a phone-like string, with the country code of region added once
+// they are long enough to be a full number
+export const normalizeDigits = (value: string, region: string = DEFAULT_PHONE_REGION): string => {
+  const digits = value.replace(/\D/g, "");
+  if (digits.length < 7) return digits;
+  return normalizePhoneNumber(value.trim().startsWith("+") ? `+${digits}` : digits, region).replace(/\D/g, "");
+};
+
+// Runs of digits in free text that may be phone numbers, e.g. "778 1405"
+export const PHONE_RUN_PATTERN = /\+?\d[\d\s\-().]*\d/g;
@@ -0,0 +1,142 @@
+// Thaana (Dhivehi) helpers: text direction and Latin-to-Thaana
+// transliteration for search.
+
+const THAANA_PATTERN = /[\u0780-\u07BF]/;
+// Hebrew, Arabic, Syriac, Thaana, N'Ko and the Arabic/Hebrew presentation forms
+const RTL_LETTER = /[\u0590-\u07FF\uFB1D-\uFDFF\uFE70-\uFEFF]/;
+const LETTER = /\p{L}/u;
+const LATIN_LETTER = /[a-z]/i;
+
+export const hasThaana = (text: string): boolean => THAANA_PATTERN.test(text);
+
+// Whether text has anything to transliterate
+export const hasLatinLetters = (text: string): boolean => LATIN_LETTER.test(text);
+
+// Direction of a message from its letters: right-to-left when most of them
+// are in a right-to-left script, otherwise whichever comes first. Digits
+// and punctuation are neutral, so "ދިވެހި 123" stays right-to-left.
+export const getTextDirection = (text: string): "ltr" | "rtl" => {
+  let rtl = 0;
+  let ltr = 0;
+  let first: "ltr" | "rtl" | null = null;
+  for (const char of text) {
+    if (!LETTER.test(char)) continue;
+    const isRtl = RTL_LETTER.test(char);
+    if (isRtl) rtl++;
+    else ltr++;
+    first ??= isRtl ? "rtl" : "ltr";
+  }
+  if (rtl !== ltr) return rtl > ltr ? "rtl" : "ltr";
+  return first ?? "ltr";
+};
+
+// Malé Latin, the usual romanisation: "dhivehi" <-> ދިވެހި
+const VOWELS: Record<string, string> = {
+  a: "\u07A6",
+  aa: "\u07A7",
+  i: "\u07A8",
+  ee: "\u07A9",
+  u: "\u07AA",
+  oo: "\u07AB",
+  e: "\u07AC",
+  ey: "\u07AD",
+  o: "\u07AE",
+  oa: "\u07AF",
+};
+
+const CONSONANTS: Record<string, string> = {
+  h: "\u0780",
+  sh: "\u0781",
+  n: "\u0782",
+  r: "\u0783",
+  b: "\u0784",
+  lh: "\u0785",
+  k: "\u0786",
+  c: "\u0786",
+  v: "\u0788",
+  w: "\u0788",
+  m: "\u0789",
+  f: "\u078A",
+  dh: "\u078B",
+  th: "\u078C",
+  l: "\u078D",
+  g: "\u078E",
+  gn: "\u078F",
+  s: "\u0790",
+  d: "\u0791",
+  z: "\u0792",
+  t: "\u0793",
+  y: "\u0794",
+  p: "\u0795",
+  j: "\u0796",
+  ch: "\u0797",
+  q: "\u07A4",
+};
+
+const ALIFU = "\u0787";
+const SUKUN = "\u07B0";
+
+type Unit =
+  | { kind: "vowel" | "consonant"; latin: string; thaana: string }
+  | { kind: "other"; text: string };
+
+// Longest match first, so "dh" is one letter rather than d + h
+const readUnits = (text: string): Unit[] => {
+  const units: Unit[] = [];
+  let i = 0;
+  while (i < text.length) {
+    const pair = text.slice(i, i + 2);
+    const single = text[i];
+    if (VOWELS[pair]) {
+      units.push({ kind: "vowel", latin: pair, thaana: VOWELS[pair] });
+      i += 2;
+    } else if (CONSONANTS[pair]) {
+      units.push({ kind: "consonant", latin: pair, thaana: CONSONANTS[pair] });
+      i += 2;
+    } else if (VOWELS[single]) {
+      units.push({ kind: "vowel", latin: single, thaana: VOWELS[single] });
+      i++;
+    } else if (CONSONANTS[single]) {
+      units.push({ kind: "consonant", latin: single, thaana: CONSONANTS[single] });
+      i++;
+    } else {
+      units.push({ kind: "other", text: single });
+      i++;
+    }
+  }
+  return units;
+};
+
+// Thaana spelling of Latin text. A vowel takes the preceding consonant,
+// or alifu at the start of a syllable; a consonant without a vowel gets
+// sukun, and a doubled one is written alifu-sukun + consonant ("raajje").
+// The end of the text is left open, without sukun, so the result still
+// works as a search prefix.
+export const transliterateToThaana = (latin: string): string => {
+  const units = readUnits(latin.toLowerCase());
+  let result = "";
+
+  units.forEach((unit, i) => {
+    if (unit.kind === "other") {
+      result += unit.text;
+      return;
+    }
+    const previous = units[i - 1];
+    const next = units[i + 1];
+
+    if (unit.kind === "vowel") {
+      if (previous?.kind !== "consonant") result += ALIFU;
+      result += unit.thaana;
+      return;
+    }
+
+    if (next?.kind === "consonant" && next.latin === unit.latin) {
+      result += ALIFU + SUKUN;
+    } else {
+      result += unit.thaana;
+      if (next && next.kind !== "vowel") result += SUKUN;
+    }
+  });
+
+  return result;
+};
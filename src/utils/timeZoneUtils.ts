@@ -0,0 +1,163 @@
+// 'source' uses the offset written in each record, 'local' the viewer's zone,
+// anything else is an IANA zone name such as "Indian/Maldives"
+export type DisplayTimeZone = "source" | "local" | string;
+
+// Concrete zone used to format one timestamp
+export interface ZoneSpec {
+  timeZone?: string;
+  // Fixed offset in minutes, applied on top of timeZone (which is then UTC)
+  offsetMinutes?: number;
+}
+
+export interface ZonedParts {
+  year: number;
+  // 0-based, like Date.getMonth()
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  // 0 = Sunday, like Date.getDay()
+  weekday: number;
+}
+
+// Parse "(UTC+0)", "UTC+5", "(UTC-05:30)", "GMT+3" into minutes east of UTC
+export const parseUtcOffset = (value: string | undefined | null): number | null => {
+  if (!value) return null;
+  const match = value.match(/(?:UTC|GMT)\s*(?:([+-])\s*(\d{1,2})(?::?(\d{2}))?)?/i);
+  if (!match) return null;
+  if (!match[1]) return 0;
+
+  const hours = parseInt(match[2], 10);
+  const minutes = match[3] ? parseInt(match[3], 10) : 0;
+  if (hours > 14 || minutes > 59) return null;
+  const total = hours * 60 + minutes;
+  return match[1] === "-" ? -total : total;
+};
+
+// Build the instant for a wall-clock time observed at the given UTC offset
+export const createDateAtOffset = (
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  second: number,
+  offsetMinutes: number
+): Date => {
+  return new Date(
+    Date.UTC(year, month - 1, day, hour, minute, second) -
+      offsetMinutes * 60 * 1000
+  );
+};
+
+export const formatUtcOffset = (offsetMinutes: number): string => {
+  const sign = offsetMinutes < 0 ? "-" : "+";
+  const absolute = Math.abs(offsetMinutes);
+  const hours = Math.floor(absolute / 60);
+  const minutes = absolute % 60;
+  return `UTC${sign}${hours}${minutes ? `:${String(minutes).padStart(2, "0")}` : ""}`;
+};
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat([], { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const getLocalTimeZone = (): string =>
+  Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+
+export const listTimeZones = (): string[] => {
+  const intl = Intl as typeof Intl & { supportedValuesOf?: (key: string) => string[] };
+  if (typeof intl.supportedValuesOf === "function") {
+    return intl.supportedValuesOf("timeZone");
+  }
+  return ["UTC", "Indian/Maldives", "Asia/Colombo", "Asia/Kolkata", "Asia/Dubai", "Europe/London", "America/New_York"];
+};
+
+// Pick the zone for one timestamp; unknown source offsets fall back to local time
+export const resolveZone = (
+  setting: DisplayTimeZone,
+  sourceOffsetMinutes?: number
+): ZoneSpec => {
+  if (setting === "local") return {};
+  if (setting === "source") {
+    return sourceOffsetMinutes === undefined
+      ? {}
+      : { timeZone: "UTC", offsetMinutes: sourceOffsetMinutes };
+  }
+  return { timeZone: setting };
+};
+
+const shiftForZone = (date: Date, zone: ZoneSpec): Date =>
+  zone.offsetMinutes
+    ? new Date(date.getTime() + zone.offsetMinutes * 60 * 1000)
+    : date;
+
+// Intl.DateTimeFormat construction is slow, keep one per zone
+const partsFormatters = new Map<string, Intl.DateTimeFormat>();
+
+export const getZonedParts = (date: Date, zone: ZoneSpec = {}): ZonedParts => {
+  if (!zone.timeZone) {
+    return {
+      year: date.getFullYear(),
+      month: date.getMonth(),
+      day: date.getDate(),
+      hour: date.getHours(),
+      minute: date.getMinutes(),
+      weekday: date.getDay(),
+    };
+  }
+
+  let formatter = partsFormatters.get(zone.timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone: zone.timeZone,
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      weekday: "short",
+      hourCycle: "h23",
+    });
+    partsFormatters.set(zone.timeZone, formatter);
+  }
+
+  const parts: Record<string, string> = {};
+  formatter.formatToParts(shiftForZone(date, zone)).forEach(({ type, value }) => {
+    parts[type] = value;
+  });
+
+  return {
+    year: parseInt(parts.year, 10),
+    month: parseInt(parts.month, 10) - 1,
+    day: parseInt(parts.day, 10),
+    hour: parseInt(parts.hour, 10) % 24,
+    minute: parseInt(parts.minute, 10),
+    weekday: ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"].indexOf(parts.weekday),
+  };
+};
+
+export const formatDateInZone = (
+  date: Date,
+  zone: ZoneSpec,
+  options: Intl.DateTimeFormatOptions
+): string =>
+  shiftForZone(date, zone).toLocaleDateString([], {
+    ...options,
+    timeZone: zone.timeZone,
+  });
+
+export const formatTimeInZone = (
+  date: Date,
+  zone: ZoneSpec,
+  options: Intl.DateTimeFormatOptions
+): string =>
+  shiftForZone(date, zone).toLocaleTimeString([], {
+    ...options,
+    timeZone: zone.timeZone,
+  });
@@ -0,0 +1,186 @@
+import type { ImportPhase, ImportSource, Message, RecordBatch, UnifiedRecord } from '../types';
+import { JsonArrayStreamParser } from '../utils/jsonStream';
+import { processMessagesData } from '../utils/messageUtils';
+import { importRecords } from '../importers';
+import { isUnifiedRecordArray } from '../importers/jsonImporter';
+
+type ImportMessage = {
+  type: 'import';
+  id: number;
+  sources: ImportSource[];
+  // Default country for numbers without a country code
+  region: string;
+};
+
+type IncomingMessage = ImportMessage;
+
+// Contacts per 'chunk' message; keeps each structured clone small
+const CONTACTS_PER_CHUNK = 200;
+// Minimum time between 'reading' progress events
+const PROGRESS_THROTTLE_MS = 100;
+
+const postProgress = (
+  id: number,
+  phase: ImportPhase,
+  loaded: number,
+  total: number,
+  source?: string
+) => {
+  self.postMessage({ type: 'progress', id, phase, loaded, total, source });
+};
+
+// Short name shown on messages: the file name, or the last URL path segment
+const getSourceLabel = (source: ImportSource): string => {
+  if (source.kind === 'file') return source.file.name;
+  const url = new URL(source.url, self.location.href);
+  return decodeURIComponent(url.pathname.split('/').pop() || '') || url.host;
+};
+
+// Two sources with the same name still need distinct labels
+const getSourceLabels = (sources: ImportSource[]): string[] => {
+  const seen = new Map<string, number>();
+  return sources.map((source) => {
+    const label = getSourceLabel(source);
+    const count = (seen.get(label) || 0) + 1;
+    seen.set(label, count);
+    return count > 1 ? `${label} (${count})` : label;
+  });
+};
+
+const openStream = async (source: ImportSource) => {
+  if (source.kind === 'file') {
+    return {
+      stream: source.file.stream(),
+      total: source.file.size,
+      fileName: source.file.name,
+    };
+  }
+
+  const response = await fetch(source.url);
+  if (!response.ok || !response.body) {
+    throw new Error(`Failed to fetch: ${response.status} ${response.statusText}`);
+  }
+  const length = parseInt(response.headers.get('content-length') || '', 10);
+  return {
+    stream: response.body,
+    total: isNaN(length) ? 0 : length,
+    // The last path segment doubles as a file name hint for the importers
+    fileName: new URL(source.url, self.location.href).pathname.split('/').pop(),
+  };
+};
+
+// JSON arrays are parsed element by element while the bytes arrive;
+// other formats are collected and handed to the importer layer
+const readRecords = async (
+  id: number,
+  source: ImportSource,
+  // Only set when several sources are loaded
+  label?: string
+): Promise<UnifiedRecord[]> => {
+  const { stream, total, fileName } = await openStream(source);
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+
+  const records: UnifiedRecord[] = [];
+  let jsonParser: JsonArrayStreamParser | null = null;
+  let isJson: boolean | null = null;
+  let text = '';
+  let loaded = 0;
+  let lastProgressAt = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    const chunk = done ? decoder.decode() : decoder.decode(value, { stream: true });
+    if (value) loaded += value.byteLength;
+
+    if (isJson === null) {
+      text += chunk;
+      const firstChar = text.trimStart().replace(/^\uFEFF/, '').charAt(0);
+      if (firstChar) {
+        isJson = firstChar === '[';
+        if (isJson) {
+          jsonParser = new JsonArrayStreamParser((element) => {
+            // Check the shape once so unrelated JSON fails fast
+            if (records.length === 0 && !isUnifiedRecordArray([element])) {
+              throw new Error('JSON does not contain SMS or DataRecord entries');
+            }
+            records.push(element as UnifiedRecord);
+          });
+          jsonParser.push(text);
+          text = '';
+        }
+      }
+    } else if (jsonParser) {
+      jsonParser.push(chunk);
+    } else {
+      text += chunk;
+    }
+
+    const now = Date.now();
+    if (done || now - lastProgressAt >= PROGRESS_THROTTLE_MS) {
+      postProgress(id, 'reading', loaded, total, label);
+      lastProgressAt = now;
+    }
+    if (done) break;
+  }
+
+  if (jsonParser) {
+    jsonParser.end();
+    if (records.length === 0) throw new Error('The file contains no records');
+    return records;
+  }
+
+  return importRecords(text, fileName);
+};
+
+self.onmessage = async (e: MessageEvent<IncomingMessage>) => {
+  const { type } = e.data;
+  if (type !== 'import') return;
+
+  const { id, sources, region } = e.data;
+  const labels = getSourceLabels(sources);
+  const isMultiple = sources.length > 1;
+
+  try {
+    const batches: RecordBatch[] = [];
+    // Sources are read one after another to keep a single file in flight
+    for (let i = 0; i < sources.length; i++) {
+      const label = labels[i];
+      try {
+        const records = await readRecords(id, sources[i], isMultiple ? label : undefined);
+        batches.push({ source: label, records });
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to read data';
+        throw new Error(isMultiple ? `${label}: ${message}` : message);
+      }
+    }
+
+    const recordCount = batches.reduce((sum, batch) => sum + batch.records.length, 0);
+    const data = processMessagesData(batches, (processed, total) => {
+      postProgress(id, 'processing', processed, total);
+    }, region);
+    postProgress(id, 'processing', recordCount, recordCount);
+
+    // Conversations are sent in batches so no single message blocks the main thread
+    const entries = Array.from(data.messagesByContact.entries());
+    for (let start = 0; start < entries.length; start += CONTACTS_PER_CHUNK) {
+      const batch: [string, Message[]][] = entries.slice(start, start + CONTACTS_PER_CHUNK);
+      self.postMessage({ type: 'chunk', id, entries: batch });
+      postProgress(id, 'transferring', Math.min(start + CONTACTS_PER_CHUNK, entries.length), entries.length);
+    }
+
+    self.postMessage({
+      type: 'done',
+      id,
+      sources: data.sources,
+      contacts: data.contacts,
+      calendarEvents: data.calendarEvents,
+      qualityReport: data.qualityReport,
+    });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Failed to import data';
+    self.postMessage({ type: 'error', id, message });
+  }
+};
+
+export {};
@@ -1,55 +1,47 @@
-type SearchIndexItem = {
-  contactId: string;
-  text: string;
-};
+import type { SearchIndexContact, SearchOptions } from '../types';
+import { buildInvertedIndex, searchInvertedIndex, type InvertedIndex } from '../utils/searchIndex';
+import type { DisplayTimeZone } from '../utils/timeZoneUtils';
 
 type InitMessage = {
   type: 'init';
-  searchIndex: SearchIndexItem[];
+  // Echoed back in 'ready' so the page can tell which build finished
+  generation: number;
+  searchIndex: SearchIndexContact[];
+  // Country used for numbers written without a country code
+  region: string;
 };
 
 type SearchMessage = {
   type: 'search';
   id: number;
   query: string;
+  options: SearchOptions;
+  // Zone setting before: and after: dates are read in
+  timeZone: DisplayTimeZone;
 };
 
 type IncomingMessage = InitMessage | SearchMessage;
 
-let index: SearchIndexItem[] = [];
+let index: InvertedIndex | null = null;
 
 self.onmessage = (e: MessageEvent<IncomingMessage>) => {
   const { type } = e.data as IncomingMessage;
 
   if (type === 'init') {
-    const { searchIndex } = e.data as InitMessage;
-    // Normalize and store lowercased text once
-    index = searchIndex.map(({ contactId, text }) => ({
-      contactId,
-      text: (text || '').toLowerCase()
-    }));
+    const { generation, searchIndex, region } = e.data as InitMessage;
+    // Tokenise every message once; searches only touch the postings
+    index = buildInvertedIndex(searchIndex, region);
+    self.postMessage({ type: 'ready', generation });
     return;
   }
 
   if (type === 'search') {
-    const { id, query } = e.data as SearchMessage;
-    const lowerQuery = (query || '').toLowerCase().trim();
-
-    if (!lowerQuery) {
-      self.postMessage({ type: 'result', id, results: [] });
-      return;
-    }
-
-    const results: string[] = [];
-
-    for (const { contactId, text } of index) {
-      if (text.includes(lowerQuery)) {
-        results.push(contactId);
-      }
-    }
-
+    const { id, query, options, timeZone } = e.data as SearchMessage;
+    const results = index
+      ? searchInvertedIndex(index, query || '', options, timeZone)
+      : { contactIds: [], hits: [] };
     self.postMessage({ type: 'result', id, results });
   }
 };
 
-export {};
\ No newline at end of file
+export {};